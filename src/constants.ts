@@ -2,6 +2,12 @@ import { ModalStyleOptions } from "./types";
 
 export const VIEW_TYPE_SKILLTREE = 'skill-tree-view';
 
+/** View type of the dashboard summarizing all trees */
+export const VIEW_TYPE_SKILLTREE_DASHBOARD = 'skill-tree-dashboard';
+
+/** File extension (without dot) of the per-tree JSON files opened by the Skill Tree view */
+export const TREE_FILE_EXTENSION = 'skilltree';
+
 export const DEFAULT_MODAL_STYLES: ModalStyleOptions = {
   position: "absolute",
   top: "60px",
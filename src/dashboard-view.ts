@@ -0,0 +1,152 @@
+import { ItemView, TFile, WorkspaceLeaf, debounce } from 'obsidian';
+import type SkillTreePlugin from './main';
+import { VIEW_TYPE_SKILLTREE, VIEW_TYPE_SKILLTREE_DASHBOARD } from './constants';
+import { getNoteLinkPath, getTreeFiles, isTreeFile, parseTreeData } from './tree-files';
+import { getTreeProgress } from './node-tasks';
+import type { SkillTreeView } from './skilltree-view';
+
+/**
+ * Summary of one tree shown on the dashboard.
+ */
+interface TreeSummary {
+  file: TFile;
+  complete: number;
+  inProgress: number;
+  unavailable: number;
+  earnedExp: number;
+  totalExp: number;
+  completedTasks: number;
+  totalTasks: number;
+  error?: string;
+}
+
+/**
+ * Dashboard listing every skill tree in the vault with its progress.
+ * Clicking a tree opens it in a Skill Tree view.
+ */
+export class SkillTreeDashboardView extends ItemView {
+  plugin: SkillTreePlugin;
+  // Notes linked by the trees shown, see refresh()
+  linkedPaths: Set<string> = new Set();
+
+  constructor(leaf: WorkspaceLeaf, plugin: SkillTreePlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() { return VIEW_TYPE_SKILLTREE_DASHBOARD; }
+  getDisplayText() { return 'Skill Tree Dashboard'; }
+  getIcon() { return 'bar-chart'; }
+
+  async onOpen() {
+    // Trees and linked notes change often; refresh once changes settle
+    const refresh = debounce(() => { this.refresh(); }, 500, true);
+    this.registerEvent(this.app.vault.on('modify', (file) => {
+      if (isTreeFile(file) || this.linkedPaths.has(file.path)) refresh();
+    }));
+    this.registerEvent(this.app.vault.on('create', (file) => { if (isTreeFile(file)) refresh(); }));
+    this.registerEvent(this.app.vault.on('delete', (file) => { if (isTreeFile(file)) refresh(); }));
+    this.registerEvent(this.app.vault.on('rename', (file) => { if (isTreeFile(file)) refresh(); }));
+    await this.refresh();
+  }
+
+  async refresh() {
+    this.linkedPaths.clear();
+    const summaries: TreeSummary[] = [];
+    for (const file of getTreeFiles(this.app)) {
+      summaries.push(await this.summarizeTree(file));
+    }
+    this.renderSummaries(summaries);
+  }
+
+  // Read a tree file and the tasks of its linked notes
+  async summarizeTree(file: TFile): Promise<TreeSummary> {
+    const summary: TreeSummary = {
+      file, complete: 0, inProgress: 0, unavailable: 0,
+      earnedExp: 0, totalExp: 0, completedTasks: 0, totalTasks: 0,
+    };
+    try {
+      const tree = parseTreeData(await this.app.vault.cachedRead(file), file.basename);
+      for (const node of tree.nodes) {
+        if (node.state === 'complete') summary.complete++;
+        else if (node.state === 'unavailable') summary.unavailable++;
+        else summary.inProgress++;
+      }
+      Object.assign(summary, await getTreeProgress(this.app, tree.nodes, this.plugin.settings, (node, tasks) => {
+        if (node.fileLink) this.linkedPaths.add(getNoteLinkPath(node.fileLink));
+        // Notes a task query matched count as linked too
+        for (const task of tasks) if (task.filePath) this.linkedPaths.add(getNoteLinkPath(task.filePath));
+      }));
+    } catch (e) {
+      summary.error = 'Not a valid skill tree file';
+    }
+    return summary;
+  }
+
+  renderSummaries(summaries: TreeSummary[]) {
+    const container = this.contentEl;
+    container.empty();
+    container.style.padding = '16px';
+    container.createEl('h2', { text: 'Skill Trees' });
+
+    if (summaries.length === 0) {
+      container.createEl('p', { text: 'No skill trees yet. Use "Create new skill tree" to start one.' });
+      return;
+    }
+
+    const totalEarned = summaries.reduce((sum, s) => sum + s.earnedExp, 0);
+    const totalExp = summaries.reduce((sum, s) => sum + s.totalExp, 0);
+    const overall = container.createEl('p', { text: `All trees: ${totalEarned} / ${totalExp} EXP` });
+    overall.style.color = 'var(--text-muted)';
+
+    for (const summary of summaries) {
+      const card = container.createDiv({ cls: 'skill-tree-dashboard-card' });
+      card.style.border = '1px solid var(--background-modifier-border)';
+      card.style.borderRadius = '8px';
+      card.style.padding = '12px';
+      card.style.marginBottom = '12px';
+      card.style.cursor = 'pointer';
+      card.onclick = () => this.openTree(summary.file);
+
+      const title = card.createEl('div', { text: summary.file.basename });
+      title.style.fontWeight = '600';
+      title.style.marginBottom = '4px';
+
+      if (summary.error) {
+        const err = card.createEl('div', { text: summary.error });
+        err.style.color = 'var(--text-error)';
+        continue;
+      }
+
+      card.createEl('div', {
+        text: `${summary.complete} complete · ${summary.inProgress} in progress · ${summary.unavailable} unavailable`
+      });
+      card.createEl('div', { text: `EXP: ${summary.earnedExp} / ${summary.totalExp}` });
+      card.createEl('div', { text: `Tasks: ${summary.completedTasks} / ${summary.totalTasks} done` });
+
+      // Progress bar by EXP earned
+      const bar = card.createDiv();
+      bar.style.height = '6px';
+      bar.style.marginTop = '8px';
+      bar.style.borderRadius = '3px';
+      bar.style.background = 'var(--background-modifier-border)';
+      const fill = bar.createDiv();
+      fill.style.height = '100%';
+      fill.style.borderRadius = '3px';
+      fill.style.background = 'var(--interactive-accent)';
+      const ratio = summary.totalExp > 0 ? summary.earnedExp / summary.totalExp : 0;
+      fill.style.width = `${Math.round(Math.min(1, ratio) * 100)}%`;
+    }
+  }
+
+  // Show a tree in an open Skill Tree view, or open a new one
+  async openTree(file: TFile) {
+    const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SKILLTREE)[0];
+    if (leaf) {
+      await (leaf.view as SkillTreeView).switchTree(file.path);
+      this.app.workspace.revealLeaf(leaf);
+    } else {
+      await this.plugin.openTreeFile(file);
+    }
+  }
+}
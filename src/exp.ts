@@ -0,0 +1,142 @@
+import { LevelCurve, SkillNode } from './interfaces';
+
+/** EXP of a task line that does not declare its own */
+export const DEFAULT_TASK_EXP = 10;
+
+/** EXP of a node without an `exp` value */
+export const DEFAULT_NODE_EXP = 10;
+
+// `[exp:: 25]` / `(exp:: 25)` Dataview inline fields, or a `+25xp` token
+const INLINE_FIELD_EXP = /[[(]\s*exp\s*::\s*(\d+(?:\.\d+)?)\s*[\])]/i;
+const TOKEN_EXP = /(?:^|\s)\+(\d+(?:\.\d+)?)\s?xp\b/i;
+
+/**
+ * Read the EXP declared on a task line.
+ * Supports the Dataview inline field `[exp:: 25]` (or `(exp:: 25)`) and a `+25xp` token.
+ * @param text Task text or the full markdown line.
+ * @returns The declared EXP, or undefined when the line declares none.
+ */
+export function parseTaskExp(text: string): number | undefined {
+  const match = text.match(INLINE_FIELD_EXP) || text.match(TOKEN_EXP);
+  if (!match) return undefined;
+  const exp = parseFloat(match[1]);
+  return isNaN(exp) ? undefined : exp;
+}
+
+/**
+ * Remove EXP declarations from task text for display.
+ * @param text Task text.
+ */
+export function stripTaskExp(text: string): string {
+  return text
+    .replace(new RegExp(INLINE_FIELD_EXP.source, 'gi'), '')
+    .replace(new RegExp(TOKEN_EXP.source, 'gi'), ' ')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * EXP earned so far and EXP available for a node.
+ */
+export interface ExpProgress {
+  earned: number;
+  total: number;
+}
+
+/**
+ * Total EXP of a node.
+ * @param node The node.
+ * @param tasks The node's tasks (with `exp`). Cancelled tasks are left out.
+ * @param fromTasks Use the sum of the tasks' EXP when the node has tasks.
+ */
+export function getNodeExp(node: SkillNode, tasks: readonly { exp?: number; cancelled?: boolean }[], fromTasks: boolean): number {
+  const counted = tasks.filter((t) => !t.cancelled);
+  if (fromTasks && counted.length > 0) {
+    return counted.reduce((sum, t) => sum + (t.exp ?? DEFAULT_TASK_EXP), 0);
+  }
+  return node.exp !== undefined ? node.exp : DEFAULT_NODE_EXP;
+}
+
+/**
+ * EXP progress of a node. Complete nodes earn their full EXP; in-progress nodes
+ * earn the share of their EXP that their completed tasks are worth.
+ * @param node The node.
+ * @param tasks The node's tasks (with `exp` and `completed`).
+ * @param fromTasks See {@link getNodeExp}.
+ */
+export function getNodeExpProgress(
+  node: SkillNode,
+  tasks: readonly { exp?: number; completed?: boolean; cancelled?: boolean }[],
+  fromTasks: boolean
+): ExpProgress {
+  const total = getNodeExp(node, tasks, fromTasks);
+  if (node.state === 'complete') return { earned: total, total };
+  if (node.state === 'unavailable') return { earned: 0, total };
+  let taskTotal = 0;
+  let taskEarned = 0;
+  for (const t of tasks) {
+    if (t.cancelled) continue;
+    const exp = t.exp ?? DEFAULT_TASK_EXP;
+    taskTotal += exp;
+    if (t.completed) taskEarned += exp;
+  }
+  if (taskTotal <= 0) return { earned: 0, total };
+  return { earned: Math.round((total * taskEarned) / taskTotal), total };
+}
+
+/**
+ * Level reached with a given amount of EXP.
+ */
+export interface LevelInfo {
+  /** Current level, starting at 1 */
+  level: number;
+  /** EXP earned since reaching the current level */
+  expIntoLevel: number;
+  /** EXP needed to go from the current level to the next one */
+  expForNextLevel: number;
+  /** `expIntoLevel / expForNextLevel`, between 0 and 1 */
+  progress: number;
+}
+
+/**
+ * EXP needed to go from `level` to `level + 1` under a curve.
+ * @param curve The leveling curve.
+ * @param level Current level (1-based).
+ */
+export function getLevelStep(curve: LevelCurve, level: number): number {
+  const base = Math.max(1, curve.base || 100);
+  switch (curve.type) {
+    case 'exponential':
+      return Math.max(1, Math.round(base * Math.pow(Math.max(1, curve.growth || 1), level - 1)));
+    case 'custom': {
+      // Table entries are cumulative thresholds; turn them into per-level steps
+      const table = (curve.table || []).filter((n) => n > 0).sort((a, b) => a - b);
+      if (table.length === 0) return base;
+      if (level - 1 < table.length) {
+        return Math.max(1, table[level - 1] - (level >= 2 ? table[level - 2] : 0));
+      }
+      return Math.max(1, table.length >= 2 ? table[table.length - 1] - table[table.length - 2] : table[0]);
+    }
+    case 'linear':
+    default:
+      return base;
+  }
+}
+
+/**
+ * Compute the level reached with `totalExp` EXP.
+ * @param totalExp EXP earned.
+ * @param curve The leveling curve.
+ */
+export function getLevelInfo(totalExp: number, curve: LevelCurve): LevelInfo {
+  let level = 1;
+  let remaining = Math.max(0, totalExp);
+  let step = getLevelStep(curve, level);
+  // Guard against runaway loops with tiny steps
+  while (remaining >= step && level < 10000) {
+    remaining -= step;
+    level++;
+    step = getLevelStep(curve, level);
+  }
+  return { level, expIntoLevel: remaining, expForNextLevel: step, progress: step > 0 ? remaining / step : 0 };
+}
@@ -0,0 +1,193 @@
+import { App, TFile } from 'obsidian';
+import { NodeId, SkillEdge, SkillNode } from './interfaces';
+import { idsEqual, normalizeId } from './ids';
+import { getNoteLinkPath } from './tree-files';
+import { mergePrerequisiteEntries, PREREQUISITES_FIELD, readPrerequisiteEntries } from './prerequisites';
+
+/**
+ * Frontmatter values to write to one linked note. `null` deletes the key.
+ */
+export interface FrontmatterChange {
+  file: TFile;
+  nodeId: NodeId;
+  values: Record<string, unknown>;
+}
+
+/**
+ * A note/node association the sync refuses to resolve on its own.
+ * - `shared-note`: several nodes link the same note
+ * - `id-mismatch`: a linked note's `skilltree-node` names another node
+ * - `duplicate-claim`: several notes have the same `skilltree-node`
+ */
+export type FrontmatterConflict =
+  | { type: 'shared-note'; path: string; nodeIds: NodeId[] }
+  | { type: 'id-mismatch'; path: string; nodeId: NodeId; noteNodeId: NodeId }
+  | { type: 'duplicate-claim'; nodeId: NodeId; paths: string[] };
+
+/**
+ * Output of {@link planFrontmatterSync}.
+ */
+export interface FrontmatterSyncPlan {
+  changes: FrontmatterChange[];
+  /** Unlinked nodes claimed by exactly one note; the caller links them */
+  links: { nodeId: NodeId; path: string }[];
+  conflicts: FrontmatterConflict[];
+}
+
+export interface FrontmatterSyncOptions {
+  /** Shape written to notes without one when the node has none */
+  defaultShape: string;
+  /** Nodes whose id replaces the one in their note (the user just linked it) */
+  claim?: Iterable<NodeId>;
+  /** Look for notes claiming the tree's nodes across the whole vault */
+  scanVault?: boolean;
+  /** Also write each node's prerequisites to its note's `prerequisites` list */
+  prerequisiteField?: boolean;
+}
+
+function sameIdList(value: unknown, ids: NodeId[]): boolean {
+  const list = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return list.length === ids.length && list.every((v, i) => idsEqual(v, ids[i]));
+}
+
+/**
+ * Work out the `skilltree-node`, `skilltree-node-exp`, `shape`, `skilltree-node-to`
+ * and `skilltree-node-from` frontmatter every linked note of a tree should have,
+ * and compare it with the metadata cache. Only keys that differ end up in the plan.
+ *
+ * A note whose `skilltree-node` names another node is reported, not overwritten,
+ * unless its node is in `options.claim`. Notes linked by several nodes are left alone.
+ * @param app The app.
+ * @param nodes Nodes of the tree.
+ * @param edges Edges of the tree.
+ * @param options See {@link FrontmatterSyncOptions}.
+ */
+export function planFrontmatterSync(
+  app: App,
+  nodes: readonly SkillNode[],
+  edges: readonly SkillEdge[],
+  options: FrontmatterSyncOptions
+): FrontmatterSyncPlan {
+  const plan: FrontmatterSyncPlan = { changes: [], links: [], conflicts: [] };
+  const claim = new Set(options.claim || []);
+
+  // Notes claiming each node: the linked notes, plus every note in the vault when scanning
+  const claims = new Map<NodeId, string[]>();
+  const addClaim = (nodeId: NodeId, path: string) => {
+    const paths = claims.get(nodeId) || [];
+    if (!paths.includes(path)) claims.set(nodeId, [...paths, path]);
+  };
+  if (options.scanVault) {
+    const ids = new Set(nodes.map((n) => n.id));
+    for (const file of app.vault.getMarkdownFiles()) {
+      const noteNodeId = normalizeId(app.metadataCache.getFileCache(file)?.frontmatter?.['skilltree-node']);
+      if (noteNodeId !== null && ids.has(noteNodeId)) addClaim(noteNodeId, file.path);
+    }
+  }
+
+  // Linked notes; unlinked nodes take the note claiming them, if it is the only one
+  const linked = new Map<string, SkillNode[]>();
+  for (const node of nodes) {
+    let path = node.fileLink && !node.brokenLink ? getNoteLinkPath(node.fileLink) : null;
+    if (!node.fileLink) {
+      const paths = claims.get(node.id) || [];
+      if (paths.length === 1) {
+        path = paths[0];
+        plan.links.push({ nodeId: node.id, path });
+      }
+    }
+    if (path) linked.set(path, [...(linked.get(path) || []), node]);
+  }
+
+  for (const [path, linkedNodes] of linked) {
+    if (linkedNodes.length > 1) {
+      plan.conflicts.push({ type: 'shared-note', path, nodeIds: linkedNodes.map((n) => n.id) });
+      continue;
+    }
+    const node = linkedNodes[0];
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) continue;
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const values: Record<string, unknown> = {};
+
+    const noteNodeId = normalizeId(frontmatter['skilltree-node']);
+    if (noteNodeId !== null && noteNodeId !== node.id && !claim.has(node.id)) {
+      plan.conflicts.push({ type: 'id-mismatch', path, nodeId: node.id, noteNodeId });
+      continue;
+    }
+    addClaim(node.id, path);
+    if (noteNodeId !== node.id) values['skilltree-node'] = node.id;
+    if (frontmatter['skilltree-node-exp'] === undefined) values['skilltree-node-exp'] = node.exp ?? 10;
+    if (frontmatter['shape'] === undefined) values['shape'] = node.shape || options.defaultShape;
+
+    const outgoing = edges.filter((e) => e.from === node.id && e.to != null).map((e) => e.to as NodeId);
+    const incoming = edges.filter((e) => e.to === node.id && e.from != null).map((e) => e.from as NodeId);
+    for (const [key, ids] of [['skilltree-node-to', outgoing], ['skilltree-node-from', incoming]] as const) {
+      if (ids.length === 0) {
+        if (frontmatter[key] !== undefined) values[key] = null;
+      } else if (!sameIdList(frontmatter[key], ids)) {
+        values[key] = ids;
+      }
+    }
+
+    if (options.prerequisiteField) {
+      const wanted = incoming
+        .map((id) => nodes.find((n) => n.id === id))
+        .map((n) => (n?.fileLink && !n.brokenLink ? app.vault.getAbstractFileByPath(getNoteLinkPath(n.fileLink)) : null))
+        .filter((f): f is TFile => f instanceof TFile);
+      // A list with values that are not links is the user's to fix; it is not overwritten
+      const entries = readPrerequisiteEntries(app, file, 'frontmatter');
+      if (entries) {
+        const desired = mergePrerequisiteEntries(app, path, entries, wanted, (p) => linked.has(p));
+        if (desired.join('\n') !== entries.join('\n')) values[PREREQUISITES_FIELD] = desired.length > 0 ? desired : null;
+      }
+    }
+
+    if (Object.keys(values).length > 0) plan.changes.push({ file, nodeId: node.id, values });
+  }
+
+  for (const [nodeId, paths] of claims) {
+    if (paths.length > 1) plan.conflicts.push({ type: 'duplicate-claim', nodeId, paths });
+  }
+  return plan;
+}
+
+/**
+ * Write the changes of a plan, one note after the other.
+ * @param app The app.
+ * @param plan Plan from {@link planFrontmatterSync}.
+ * @returns Paths of the notes that could not be written.
+ */
+export async function applyFrontmatterSync(app: App, plan: FrontmatterSyncPlan): Promise<string[]> {
+  const failed: string[] = [];
+  for (const change of plan.changes) {
+    try {
+      await app.fileManager.processFrontMatter(change.file, (frontmatter) => {
+        for (const [key, value] of Object.entries(change.values)) {
+          if (value === null) delete frontmatter[key];
+          else frontmatter[key] = value;
+        }
+      });
+    } catch (e) {
+      console.warn(`Failed to update frontmatter of ${change.file.path}:`, e);
+      failed.push(change.file.path);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Describe a conflict for display.
+ * @param conflict The conflict.
+ * @param nodeName Display name of a node.
+ */
+export function describeFrontmatterConflict(conflict: FrontmatterConflict, nodeName: (id: NodeId) => string): string {
+  switch (conflict.type) {
+    case 'shared-note':
+      return `"${conflict.path}" is linked by ${conflict.nodeIds.map(nodeName).join(', ')}`;
+    case 'id-mismatch':
+      return `"${conflict.path}" is linked by ${nodeName(conflict.nodeId)} but its skilltree-node is "${conflict.noteNodeId}"`;
+    case 'duplicate-claim':
+      return `${nodeName(conflict.nodeId)} is claimed by ${conflict.paths.map((p) => `"${p}"`).join(', ')}`;
+  }
+}
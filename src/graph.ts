@@ -0,0 +1,103 @@
+import { NodeId, SkillEdge } from './interfaces';
+
+/**
+ * A dependency cycle in a tree.
+ */
+export interface EdgeCycle {
+  /** Node ids along the cycle, following edge direction (the first node is not repeated) */
+  nodeIds: NodeId[];
+  /** Ids of the edges forming the cycle, `edgeIds[i]` goes from `nodeIds[i]` to the next node */
+  edgeIds: NodeId[];
+}
+
+/**
+ * Build an adjacency list (from -> outgoing edges), skipping edges with missing endpoints.
+ */
+function buildAdjacency(edges: readonly SkillEdge[], ignoreEdgeId?: NodeId): Map<NodeId, SkillEdge[]> {
+  const adjacency = new Map<NodeId, SkillEdge[]>();
+  for (const e of edges) {
+    if (e.from == null || e.to == null || e.id === ignoreEdgeId) continue;
+    adjacency.set(e.from, [...(adjacency.get(e.from) || []), e]);
+  }
+  return adjacency;
+}
+
+/**
+ * Find the path of node ids from `start` to `target` following edge direction.
+ * @returns The path including both ends, or null if `target` is not reachable.
+ */
+export function findPath(edges: readonly SkillEdge[], start: NodeId, target: NodeId, ignoreEdgeId?: NodeId): NodeId[] | null {
+  const adjacency = buildAdjacency(edges, ignoreEdgeId);
+  const previous = new Map<NodeId, NodeId>();
+  const visited = new Set<NodeId>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift() as NodeId;
+    if (id === target) {
+      const path = [id];
+      while (previous.has(path[0])) path.unshift(previous.get(path[0]) as NodeId);
+      return path;
+    }
+    for (const e of adjacency.get(id) || []) {
+      const next = e.to as NodeId;
+      if (visited.has(next)) continue;
+      visited.add(next);
+      previous.set(next, id);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether adding an edge `from -> to` would create a dependency cycle.
+ * @param edges Existing edges.
+ * @param from Child (prerequisite) node id of the new edge.
+ * @param to Parent node id of the new edge.
+ * @param ignoreEdgeId Edge to leave out, e.g. the edge being re-targeted.
+ * @returns The existing path from `to` back to `from` that the edge would close, or null if there is no cycle.
+ */
+export function findCycleForNewEdge(edges: readonly SkillEdge[], from: NodeId, to: NodeId, ignoreEdgeId?: NodeId): NodeId[] | null {
+  if (from === to) return [from];
+  return findPath(edges, to, from, ignoreEdgeId);
+}
+
+/**
+ * Find the dependency cycles in a tree. Every cycle is reported once, but cycles
+ * sharing edges may only be reported through one of them, so fixing the listed
+ * cycles and validating again may reveal more.
+ * @param edges All edges of the tree.
+ */
+export function findCycles(edges: readonly SkillEdge[]): EdgeCycle[] {
+  const adjacency = buildAdjacency(edges);
+  const cycles: EdgeCycle[] = [];
+  const done = new Set<NodeId>();
+  const onStack = new Map<NodeId, number>(); // node id -> index in stack
+  const stack: { nodeId: NodeId; edgeId: NodeId | null }[] = [];
+
+  const visit = (nodeId: NodeId, viaEdgeId: NodeId | null) => {
+    onStack.set(nodeId, stack.length);
+    stack.push({ nodeId, edgeId: viaEdgeId });
+    for (const e of adjacency.get(nodeId) || []) {
+      const next = e.to as NodeId;
+      if (onStack.has(next)) {
+        // back edge: the stack from `next` to here plus this edge forms a cycle
+        const slice = stack.slice(onStack.get(next) as number);
+        cycles.push({
+          nodeIds: slice.map((s) => s.nodeId),
+          edgeIds: [...slice.slice(1).map((s) => s.edgeId as NodeId), e.id],
+        });
+      } else if (!done.has(next)) {
+        visit(next, e.id);
+      }
+    }
+    stack.pop();
+    onStack.delete(nodeId);
+    done.add(nodeId);
+  };
+
+  for (const id of adjacency.keys()) {
+    if (!done.has(id)) visit(id, null);
+  }
+  return cycles;
+}
@@ -0,0 +1,60 @@
+import { HistoryEntry, HistorySource, NodeId, NodeState } from './interfaces';
+
+/**
+ * State and earned EXP of a node at one point in time.
+ */
+export interface NodeProgressSnapshot {
+  state?: NodeState;
+  earned: number;
+}
+
+/**
+ * Build history entries for every node whose state or earned EXP differs
+ * between two snapshots. Nodes missing from `before` are new and not logged.
+ * @param before Snapshot per node id taken after the previous change.
+ * @param after Current snapshot per node id.
+ * @param cause Node the user changed and how; every other change is logged as `rule`.
+ * @param time Timestamp for the entries.
+ */
+export function diffProgress(
+  before: ReadonlyMap<NodeId, NodeProgressSnapshot>,
+  after: ReadonlyMap<NodeId, NodeProgressSnapshot>,
+  cause: { nodeId: NodeId; source: HistorySource } | null,
+  time: number
+): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const [nodeId, now] of after) {
+    const prev = before.get(nodeId);
+    if (!prev) continue;
+    const stateChanged = prev.state !== now.state;
+    const exp = now.earned - prev.earned;
+    if (!stateChanged && exp === 0) continue;
+    const entry: HistoryEntry = {
+      nodeId,
+      exp,
+      time,
+      source: cause && cause.nodeId === nodeId ? cause.source : 'rule',
+    };
+    if (stateChanged) {
+      entry.from = prev.state;
+      entry.to = now.state;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Total EXP gained per day, newest day first.
+ * @param history History entries.
+ * @returns Pairs of a day key (`YYYY-MM-DD`, local time) and the EXP gained that day.
+ */
+export function summarizeHistoryByDay(history: readonly HistoryEntry[]): [string, number][] {
+  const days = new Map<string, number>();
+  for (const entry of history) {
+    const d = new Date(entry.time);
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    days.set(key, (days.get(key) || 0) + entry.exp);
+  }
+  return [...days.entries()].sort((a, b) => b[0].localeCompare(a[0]));
+}
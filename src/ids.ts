@@ -0,0 +1,89 @@
+import { NodeId, SkillTreeData } from './interfaces';
+
+/**
+ * Generate a short random id for a node or edge.
+ * @param existing Ids already in use; a new id is drawn until it does not collide.
+ *   Ids that look numeric are redrawn too so they are never mistaken for legacy ids.
+ */
+export function generateId(existing?: { has(id: string): boolean }): NodeId {
+  let id: string;
+  do {
+    id = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+  } while (existing?.has(id) || isLegacyId(id));
+  return id;
+}
+
+/**
+ * Normalize an id read from JSON or frontmatter. Legacy numeric ids become strings.
+ * @param value Raw id value.
+ * @returns The id as a string, or null if the value is not an id.
+ */
+export function normalizeId(value: unknown): NodeId | null {
+  if (typeof value === 'number' && isFinite(value)) return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  return null;
+}
+
+/**
+ * Compare an id from frontmatter (which may be a number or a string) with a node id.
+ */
+export function idsEqual(a: unknown, b: unknown): boolean {
+  const na = normalizeId(a);
+  return na !== null && na === normalizeId(b);
+}
+
+/**
+ * Check whether an id is a legacy `Date.now() + Math.random()` float id.
+ */
+export function isLegacyId(value: unknown): boolean {
+  if (typeof value === 'number') return true;
+  return typeof value === 'string' && /^\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value.trim());
+}
+
+/**
+ * Replace legacy numeric node and edge ids with generated string ids.
+ * The input is not modified.
+ * @param data Tree data as loaded from a `.skilltree` file.
+ * @returns The migrated data (the same object when nothing changed) and a map
+ *   from old node id (as a string) to new node id.
+ */
+export function migrateLegacyIds(data: SkillTreeData): { data: SkillTreeData; idMap: Map<string, NodeId> } {
+  const idMap = new Map<string, NodeId>();
+  const used = new Set<string>();
+  for (const n of data.nodes) {
+    if (!isLegacyId(n.id)) used.add(String(n.id));
+  }
+  for (const e of data.edges) {
+    if (!isLegacyId(e.id)) used.add(String(e.id));
+  }
+
+  let changed = false;
+  const nodes = data.nodes.map((n) => {
+    if (!isLegacyId(n.id)) return n;
+    changed = true;
+    const newId = generateId(used);
+    used.add(newId);
+    idMap.set(String(n.id), newId);
+    return { ...n, id: newId };
+  });
+  const mapEndpoint = (value: unknown): NodeId | null => {
+    const id = normalizeId(value);
+    if (id === null) return null;
+    return idMap.get(id) ?? id;
+  };
+  const edges = data.edges.map((e) => {
+    const from = mapEndpoint(e.from);
+    const to = mapEndpoint(e.to);
+    const legacyEdgeId = isLegacyId(e.id);
+    if (!legacyEdgeId && from === e.from && to === e.to) return e;
+    changed = true;
+    let id = e.id;
+    if (legacyEdgeId) {
+      id = generateId(used);
+      used.add(id);
+    }
+    return { ...e, id, from, to };
+  });
+
+  return { data: changed ? { ...data, nodes, edges } : data, idMap };
+}
@@ -1,17 +1,47 @@
+/**
+ * Progress state of a node. See `computeNodeStates` for how states propagate.
+ */
+export type NodeState = 'complete' | 'in-progress' | 'unavailable';
+
+/**
+ * How many of a node's prerequisites (children) must be complete before it unlocks.
+ * - `all`: every prerequisite (default)
+ * - `any`: at least one prerequisite
+ * - `count`: at least `count` prerequisites (N-of-M)
+ */
+export interface UnlockRule {
+  mode: 'all' | 'any' | 'count';
+  count?: number;
+}
+
+/**
+ * Identifier of a node or edge: a short random string (see `generateId`).
+ * Trees created before string ids used `Date.now() + Math.random()` numbers;
+ * those are migrated when the tree is loaded.
+ */
+export type NodeId = string;
+
 /**
  * Represents a node (skill) on the skill tree.
  * @remarks
  * Nodes may optionally reference an Obsidian note via `fileLink` and carry
- * experience points in `exp`. Shape can be set via front matter (default: 'circle' for simple-light/simple-dark styles, 'hexagon' for gamified).
+ * experience points in `exp`. Without a `title`, the note's `title` or first
+ * `aliases` frontmatter entry is shown, falling back to the note's name. Shape can be set via front matter (default: 'circle' for simple-light/simple-dark styles, 'hexagon' for gamified).
  */
 export interface SkillNode {
-  id: number;
+  id: NodeId;
   x: number;
   y: number;
-  state?: 'complete' | 'in-progress' | 'unavailable';
+  title?: string; // Display title (default: the linked note's title)
+  description?: string; // Longer description shown in the stats modal
+  icon?: string; // Emoji or short text drawn in front of the title
+  state?: NodeState;
   fileLink?: string; // Path to an Obsidian file
+  brokenLink?: boolean; // The linked note was deleted; fileLink keeps its old path until the node is relinked
   exp?: number; // Experience points for this node
   shape?: 'circle' | 'square' | 'hexagon' | 'diamond'; // Node shape
+  unlock?: UnlockRule; // Prerequisites needed to unlock this node (default: all)
+  taskQuery?: string; // Also pull tasks from across the vault: `#tag`, `"folder"`, `[[Note]]` or a Dataview source
 }
 
 /**
@@ -19,9 +49,9 @@ export interface SkillNode {
  * Either `from` or `to` may be `null` during editing operations.
  */
 export interface SkillEdge {
-  id: number;
-  from: number | null;
-  to: number | null;
+  id: NodeId;
+  from: NodeId | null;
+  to: NodeId | null;
   fromX?: number;
   fromY?: number;
   toX?: number;
@@ -35,14 +65,35 @@ export interface PersistData {
   edges?: SkillEdge[];
 }
 
+/**
+ * What caused a history entry: the user changing a node, a task being toggled,
+ * or the state rules cascading a change.
+ */
+export type HistorySource = 'manual' | 'task' | 'rule';
+
+/**
+ * One entry of a tree's append-only progress history.
+ */
+export interface HistoryEntry {
+  nodeId: NodeId;
+  from?: NodeState; // State before the change (missing when only EXP changed)
+  to?: NodeState; // State after the change
+  exp: number; // EXP gained (negative when EXP was lost)
+  time: number; // Unix time in milliseconds
+  source: HistorySource;
+}
+
 /**
  * Persistable skill tree data structure.
  * Contains the tree `name` and arrays of `nodes` and `edges`.
+ * Each tree is stored as JSON in its own `.skilltree` vault file; `name`
+ * mirrors the file's basename.
  */
 export interface SkillTreeData {
   name: string;
   nodes: SkillNode[];
   edges: SkillEdge[];
+  history?: HistoryEntry[]; // State changes and EXP gains, oldest first
 }
 
 /**
@@ -67,6 +118,7 @@ export interface SkillTreeStyle {
   nodeShape?: 'circle' | 'square' | 'hexagon' | 'star' | 'diamond'; // Shape for nodes in this style
   animated?: boolean; // Whether to use animations
   edgeStyle?: 'straight' | 'wavy' | 'gradient'; // Edge rendering style
+  base?: string; // Built-in style a custom style was cloned from
 }
 
 /**
@@ -112,6 +164,41 @@ export const SKILL_TREE_STYLES: Record<string, SkillTreeStyle> = {
   }
 };
 
+/**
+ * How much EXP each level needs.
+ * - `linear`: every level needs `base` EXP
+ * - `exponential`: level N needs `base * growth^(N-1)` EXP
+ * - `custom`: `table` lists the total EXP needed to reach level 2, 3, ...;
+ *   past the end of the table every level needs the last step again
+ */
+export interface LevelCurve {
+  type: 'linear' | 'exponential' | 'custom';
+  base: number;
+  growth: number;
+  table: number[];
+}
+
+/**
+ * What a task checkbox symbol means: `[ ]` todo, `[/]` in progress, `[x]` done, `[-]` cancelled, ...
+ */
+export type TaskStatusType = 'todo' | 'in-progress' | 'done' | 'cancelled';
+
+/**
+ * Order of the tasks orbiting a node: as in the note, by due date, or by priority.
+ */
+export type TaskSortOrder = 'file' | 'due' | 'priority';
+
+/**
+ * Where tasks are read from: the built-in markdown parser, Dataview, or Dataview when installed.
+ */
+export type TaskSourceType = 'auto' | 'regex' | 'dataview';
+
+/**
+ * Where notes list their prerequisites, which become the node's incoming edges:
+ * a `prerequisites` frontmatter list, a list of links under a "Requires" heading, or nowhere.
+ */
+export type PrerequisiteSource = 'off' | 'frontmatter' | 'heading';
+
 /**
  * Plugin settings persisted between Obsidian sessions.
  */
@@ -121,8 +208,20 @@ export interface SkillTreeSettings {
   showBezier: boolean;
   defaultExp: number;
   showExpAsFraction: boolean;
+  expFromTasks: boolean; // Node EXP is the sum of its tasks' EXP when the node has tasks
+  levelCurve: LevelCurve; // EXP needed per level, for per-tree and global levels
+  taskSource: TaskSourceType; // How tasks of linked notes are read
+  taskStatuses: Record<string, TaskStatusType>; // Checkbox symbol -> status type; cancelled tasks don't count toward completion
+  taskSortOrder: TaskSortOrder; // Order of the tasks orbiting a node
+  taskHeading: string; // Heading that tasks added from the canvas go under (empty = end of note)
+  inProgressThreshold: number; // Percent of tasks done that makes an unconnected node in-progress (0 = off)
+  prerequisiteSource: PrerequisiteSource; // Notes' prerequisite links kept in sync with the node's incoming edges
+  /** @deprecated Legacy; trees are now opened from `.skilltree` files */
   currentTreeName: string;
+  /** @deprecated Legacy storage, migrated into `.skilltree` files on load */
   trees: Record<string, SkillTreeData>;
+  lastTreePath: string; // Path of the most recently opened `.skilltree` file
   defaultFilePath: string; // Default path for creating files (empty string = root)
-  style: string; // Style name (key from SKILL_TREE_STYLES)
+  style: string; // Style name (key from SKILL_TREE_STYLES or customStyles)
+  customStyles: Record<string, SkillTreeStyle>; // User-defined styles by key, edited in the settings
 }
\ No newline at end of file
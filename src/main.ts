@@ -1,7 +1,12 @@
-import { Plugin, WorkspaceLeaf, PluginSettingTab, Setting, App, FuzzySuggestModal, TAbstractFile} from 'obsidian';
-import { SkillTreeSettings, SKILL_TREE_STYLES } from './interfaces';
+import { Plugin, WorkspaceLeaf, PluginSettingTab, Setting, App, FuzzySuggestModal, Modal, Notice, TAbstractFile, TFile, TFolder, debounce } from 'obsidian';
+import { LevelCurve, NodeColors, PersistData, PrerequisiteSource, SkillTreeSettings, SkillTreeStyle, TaskSortOrder, TaskSourceType, SkillTreeData } from './interfaces';
 import { SkillTreeView } from './skilltree-view';
-import { VIEW_TYPE_SKILLTREE } from './constants';
+import { VIEW_TYPE_SKILLTREE, VIEW_TYPE_SKILLTREE_DASHBOARD, TREE_FILE_EXTENSION } from './constants';
+import { SkillTreeDashboardView } from './dashboard-view';
+import { createTreeFile, getTreeFiles, getTreeNoteLinks, isTreeFile, parseTreeData, retargetNoteLinks, serializeTreeData } from './tree-files';
+import { buildTreeFromNotes, collectNoteNodes } from './vault-tree';
+import { cloneSkillTreeStyle, EDGE_STYLE_OPTIONS, exportSkillTreeStyles, getBaseStyleKey, getSkillTreeStyle, getSkillTreeStyles, importSkillTreeStyles, NODE_COLOR_STATES, NODE_SHAPE_OPTIONS, toHexColor } from './styles';
+import { DEFAULT_TASK_STATUSES, formatTaskStatuses, parseTaskStatuses } from './tasks';
 
 export type { SkillTreeSettings, SkillTreeData, SkillNode, SkillEdge } from './interfaces';
 export type { Coordinate } from './types';
@@ -24,10 +29,20 @@ function defaultSettings(): SkillTreeSettings {
     showBezier: false, 
     defaultExp: 10, 
     showExpAsFraction: false,
+    expFromTasks: false,
+    levelCurve: { type: 'linear', base: 100, growth: 1.5, table: [] },
+    taskSource: 'auto',
+    taskStatuses: { ...DEFAULT_TASK_STATUSES },
+    taskSortOrder: 'file',
+    taskHeading: '## Tasks',
+    inProgressThreshold: 0,
+    prerequisiteSource: 'off',
     currentTreeName: 'default',
-    trees: { 'default': { name: 'default', nodes: [], edges: [] } }, // TODO implement
+    trees: {}, // Legacy, see migrateLegacyTrees()
+    lastTreePath: '',
     defaultFilePath: '', // Empty string = root directory
-    style: 'gamified' // Default style
+    style: 'gamified', // Default style
+    customStyles: {}
   };
 }
 
@@ -46,6 +61,8 @@ export default class SkillTreePlugin extends Plugin {
     this.addSettingTab(new SkillTreeSettingTab(this.app, this));
 
     this.registerView?.(VIEW_TYPE_SKILLTREE, (leaf: WorkspaceLeaf) => new SkillTreeView(leaf, this));
+    this.registerExtensions?.([TREE_FILE_EXTENSION], VIEW_TYPE_SKILLTREE);
+    this.registerView?.(VIEW_TYPE_SKILLTREE_DASHBOARD, (leaf: WorkspaceLeaf) => new SkillTreeDashboardView(leaf, this));
 
     this.addCommand?.({
       id: 'open-skill-tree',
@@ -53,17 +70,95 @@ export default class SkillTreePlugin extends Plugin {
       callback: () => this.activateView(),
     });
 
+    this.addCommand?.({
+      id: 'open-skill-tree-dashboard',
+      name: 'Open skill tree dashboard',
+      callback: () => this.activateDashboard(),
+    });
+
+    this.addCommand?.({
+      id: 'new-skill-tree',
+      name: 'Create new skill tree',
+      callback: async () => {
+        const file = await createTreeFile(this.app, this.settings.defaultFilePath, 'Untitled skill tree');
+        await this.openTreeFile(file);
+      },
+    });
+
+    this.addCommand?.({
+      id: 'generate-skill-tree-from-notes',
+      name: 'Generate skill tree from note frontmatter',
+      callback: () => this.generateTreeFromNotes(),
+    });
+
+    this.addCommand?.({
+      id: 'validate-skill-tree',
+      name: 'Validate skill tree (find dependency cycles)',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(SkillTreeView);
+        if (!view) return false;
+        if (!checking) view.openValidateTreeModal();
+        return true;
+      },
+    });
+
+    this.addCommand?.({
+      id: 'add-task-to-selected-node',
+      name: 'Add task to selected node',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(SkillTreeView);
+        const node = view?.nodes.find((n) => n.id === view.selectedNodeId);
+        if (!view || !node?.fileLink) return false;
+        if (!checking) view.addTaskToNode(node);
+        return true;
+      },
+    });
+
+    // "New skill tree" entry in the file explorer's folder menu
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (!(file instanceof TFolder)) return;
+      menu.addItem((item) => item
+        .setTitle('New skill tree')
+        .setIcon('dice')
+        .onClick(async () => {
+          const created = await createTreeFile(this.app, file.path, 'Untitled skill tree');
+          await this.openTreeFile(created);
+        }));
+      menu.addItem((item) => item
+        .setTitle('Generate skill tree from notes')
+        .setIcon('dice')
+        .onClick(() => this.generateTreeFromNotes(file.path)));
+    }));
+
+    // Keep note links in every tree pointing at renamed notes; open trees handle this themselves
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (file instanceof TFile && file.extension === 'md') {
+        this.updateNoteLinksInTrees(oldPath, file.path).catch((e) => console.error('Failed to update note links:', e));
+      }
+    }));
+    this.registerEvent(this.app.vault.on('delete', (file) => {
+      if (file instanceof TFile && file.extension === 'md') {
+        this.updateNoteLinksInTrees(file.path, null).catch((e) => console.error('Failed to update note links:', e));
+      }
+    }));
+
+    // Trees used to live in data.json; move them into vault files once the vault is indexed
+    this.app.workspace.onLayoutReady(() => {
+      this.migrateLegacyTrees().catch((e) => console.error('Failed to migrate skill trees:', e));
+    });
+
     this.addRibbonIcon?.('dice', 'Open Skill Tree', () => this.activateView());
   }
 
   onunload() {
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_SKILLTREE);
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE_SKILLTREE_DASHBOARD);
   }
 
   async loadSettings() {
     this.settings = Object.assign(defaultSettings(), await this.loadData());
     // Ensure style is set (for backward compatibility)
-    if (!this.settings.style || !SKILL_TREE_STYLES[this.settings.style]) {
+    if (!this.settings.style || !getSkillTreeStyle(this.settings, this.settings.style)) {
       // Migrate old style names to new ones
       if (this.settings.style === 'default') {
         this.settings.style = 'simple-light';
@@ -80,13 +175,144 @@ export default class SkillTreePlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
+  /**
+   * Open the most recently used tree, falling back to the first tree in the vault
+   * or a newly created one.
+   */
   async activateView() {
-    this.app.workspace.detachLeavesOfType(VIEW_TYPE_SKILLTREE);
-    const leaf = this.app.workspace.getLeaf(true);
-    await leaf.setViewState({ type: VIEW_TYPE_SKILLTREE, active: true });
+    const last = this.app.vault.getAbstractFileByPath(this.settings.lastTreePath);
+    let file = isTreeFile(last) ? last : getTreeFiles(this.app)[0];
+    if (!file) {
+      file = await createTreeFile(this.app, this.settings.defaultFilePath, 'default');
+    }
+    await this.openTreeFile(file);
+  }
+
+  /** Open the dashboard of all trees, reusing an open one */
+  async activateDashboard() {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_SKILLTREE_DASHBOARD)[0];
+    const leaf = existing || this.app.workspace.getRightLeaf(false) || this.app.workspace.getLeaf(true);
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_SKILLTREE_DASHBOARD, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /** Open a `.skilltree` file, reusing a leaf that already shows it */
+  async openTreeFile(file: TFile) {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_SKILLTREE)
+      .find((leaf) => (leaf.view as SkillTreeView).file?.path === file.path);
+    const leaf = existing || this.app.workspace.getLeaf(true);
+    if (!existing) await leaf.openFile(file, { active: true });
     this.app.workspace.revealLeaf(leaf);
   }
 
+  /**
+   * Create and open a tree made from the `skilltree-node`, `skilltree-node-to` and
+   * `skilltree-node-from` frontmatter of notes, see {@link buildTreeFromNotes}.
+   * @param folder Only use notes in this folder (empty string = whole vault).
+   */
+  async generateTreeFromNotes(folder = '') {
+    const { notes: found, duplicates } = collectNoteNodes(this.app, folder);
+    if (found.length === 0) {
+      new Notice(`No notes with a skilltree-node field found${folder ? ` in ${folder}` : ''}.`);
+      return;
+    }
+    if (duplicates.length > 0) {
+      new Notice(`Skipped ${duplicates.length} note${duplicates.length === 1 ? '' : 's'} claiming a node another note already claims: ${duplicates.join(', ')}`);
+    }
+    // A note linked by two trees under the same node id gets its frontmatter rewritten by both; leave it to its tree
+    const treeLinks = await getTreeNoteLinks(this.app);
+    const linked = found.filter((note) => treeLinks.has(note.path));
+    const notes = found.filter((note) => !treeLinks.has(note.path));
+    if (linked.length > 0) {
+      const trees = [...new Set(linked.flatMap((note) => (treeLinks.get(note.path) || []).map((f) => f.basename)))];
+      new Notice(`Skipped ${linked.length} note${linked.length === 1 ? '' : 's'} already in ${trees.join(', ')}: ${linked.map((note) => note.path).join(', ')}`);
+    }
+    if (notes.length === 0) {
+      new Notice('All notes with a skilltree-node field already belong to a skill tree.');
+      return;
+    }
+    const name = folder ? `${folder.split('/').pop()} skill tree` : 'Generated skill tree';
+    const tree = buildTreeFromNotes(notes, name);
+    const file = await createTreeFile(this.app, folder || this.settings.defaultFilePath, name, tree);
+    await this.openTreeFile(file);
+  }
+
+  /**
+   * Update the note links of tree files that are not open in a view after a note
+   * was renamed or deleted, see {@link retargetNoteLinks}.
+   * @param oldPath Previous vault path of the note.
+   * @param newPath New vault path, or null if the note was deleted.
+   */
+  async updateNoteLinksInTrees(oldPath: string, newPath: string | null) {
+    const openTrees = new Set(this.app.workspace.getLeavesOfType(VIEW_TYPE_SKILLTREE)
+      .map((leaf) => (leaf.view as SkillTreeView).file?.path));
+    for (const file of getTreeFiles(this.app)) {
+      if (openTrees.has(file.path)) continue;
+      // Only rewrite trees that link the note
+      if (!(await this.app.vault.cachedRead(file)).includes(oldPath.replace(/\.md$/, ''))) continue;
+      await this.app.vault.process(file, (raw) => {
+        let tree;
+        try {
+          tree = parseTreeData(raw, file.basename);
+        } catch (e) {
+          return raw; // Not a valid tree file, leave it alone
+        }
+        return retargetNoteLinks(tree.nodes, oldPath, newPath).length > 0 ? serializeTreeData(tree) : raw;
+      });
+    }
+  }
+
+  /**
+   * One-time migration of trees stored in `settings.trees` (and the even older
+   * top-level `nodes`/`edges` in data.json) into `.skilltree` files.
+   * Each tree is removed from the settings as soon as its file exists, so a tree
+   * that fails is retried on the next load without duplicating the others.
+   */
+  async migrateLegacyTrees() {
+    const settings: SkillTreeSettings & PersistData = this.settings;
+    const legacy: Record<string, SkillTreeData> = { ...(settings.trees || {}) };
+    // Name of the tree made from the top-level nodes, if any
+    let topLevelName: string | null = null;
+    if (Array.isArray(settings.nodes) && settings.nodes.length > 0) {
+      const name = settings.currentTreeName || 'default';
+      const existing = legacy[name];
+      if (!existing || existing.nodes.length === 0) {
+        legacy[name] = { name, nodes: settings.nodes, edges: settings.edges || [] };
+        topLevelName = name;
+      }
+    }
+
+    const names = Object.keys(legacy);
+    if (names.length === 0 && settings.nodes === undefined) return;
+    if (!topLevelName) {
+      delete settings.nodes;
+      delete settings.edges;
+    }
+
+    for (const name of names) {
+      const tree = legacy[name];
+      // Empty placeholder trees (the old default) are not worth a file
+      if (tree && ((tree.nodes || []).length > 0 || (tree.edges || []).length > 0)) {
+        try {
+          const file = await createTreeFile(this.app, settings.defaultFilePath, name, tree);
+          if (name === settings.currentTreeName) {
+            settings.lastTreePath = file.path;
+          }
+        } catch (e) {
+          console.error(`Failed to migrate skill tree "${name}":`, e);
+          continue;
+        }
+      }
+      if (settings.trees) delete settings.trees[name];
+      if (name === topLevelName) {
+        delete settings.nodes;
+        delete settings.edges;
+      }
+      await this.saveSettings();
+    }
+    await this.saveSettings();
+  }
+
   updateViews() {
     this.app.workspace.getLeavesOfType(VIEW_TYPE_SKILLTREE).forEach(leaf => {
       const view = leaf.view as SkillTreeView;
@@ -132,6 +358,54 @@ class FolderSuggestionModal extends FuzzySuggestModal<string> {
   }
 }
 
+/**
+ * Modal to paste exported styles into. `onImport` may throw to show an error and keep the modal open.
+ */
+class StyleImportModal extends Modal {
+  onImport: (json: string) => Promise<void>;
+
+  constructor(app: App, onImport: (json: string) => Promise<void>) {
+    super(app);
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Import styles' });
+    const input = contentEl.createEl('textarea');
+    input.placeholder = 'Paste styles exported as JSON';
+    input.rows = 12;
+    input.style.width = '100%';
+    input.style.fontFamily = 'var(--font-monospace)';
+    const error = contentEl.createEl('div');
+    error.style.color = 'var(--text-error)';
+    error.style.marginTop = '4px';
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Import')
+        .setCta()
+        .onClick(async () => {
+          try {
+            await this.onImport(input.value);
+            this.close();
+          } catch (e) {
+            error.textContent = e instanceof Error ? e.message : String(e);
+          }
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+const NODE_COLOR_LABELS: Record<keyof NodeColors, string> = {
+  complete: 'Complete nodes',
+  inProgress: 'In-progress nodes',
+  unavailable: 'Unavailable nodes',
+  error: 'Nodes with note issues',
+};
+
 /**
  * Settings tab displayed in Obsidian's settings dialog for the plugin.
  */
@@ -178,7 +452,7 @@ class SkillTreeSettingTab extends PluginSettingTab {
 
     // Only show bezier toggle if not using gamified style (gamified always uses rigid bezier)
     const currentStyle = this.plugin.settings.style || 'default';
-    if (currentStyle !== 'gamified') {
+    if (getBaseStyleKey(this.plugin.settings, currentStyle) !== 'gamified') {
       new Setting(containerEl)
         .setName('Bezier edges')
         .setDesc('Use curved bezier edges instead of straight lines')
@@ -191,18 +465,177 @@ class SkillTreeSettingTab extends PluginSettingTab {
           }));
     }
 
+    new Setting(containerEl)
+      .setName('Node EXP from tasks')
+      .setDesc('Use the sum of a node\'s task EXP as the node\'s EXP. Tasks declare EXP with [exp:: 25] or +25xp (default 10).')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.expFromTasks)
+        .onChange(async (value) => {
+          this.plugin.settings.expFromTasks = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateViews();
+        }));
+
+    const curve = this.plugin.settings.levelCurve;
+    new Setting(containerEl)
+      .setName('Leveling curve')
+      .setDesc('How much EXP each level needs, for tree and global levels')
+      .addDropdown(dropdown => dropdown
+        .addOption('linear', 'Linear')
+        .addOption('exponential', 'Exponential')
+        .addOption('custom', 'Custom table')
+        .setValue(curve.type)
+        .onChange(async (value) => {
+          curve.type = value as LevelCurve['type'];
+          await this.plugin.saveSettings();
+          this.plugin.updateViews();
+          // Refresh settings display to show the fields of this curve
+          this.display();
+        }));
+
+    if (curve.type !== 'custom') {
+      new Setting(containerEl)
+        .setName(curve.type === 'linear' ? 'EXP per level' : 'EXP for level 2')
+        .addText(text => text
+          .setPlaceholder('100')
+          .setValue(String(curve.base))
+          .onChange(async (value) => {
+            const val = parseInt(value, 10);
+            if (!isNaN(val) && val > 0) {
+              curve.base = val;
+              await this.plugin.saveSettings();
+              this.plugin.updateViews();
+            }
+          }));
+    }
+
+    if (curve.type === 'exponential') {
+      new Setting(containerEl)
+        .setName('Growth per level')
+        .setDesc('Each level needs this many times the EXP of the previous one')
+        .addText(text => text
+          .setPlaceholder('1.5')
+          .setValue(String(curve.growth))
+          .onChange(async (value) => {
+            const val = parseFloat(value);
+            if (!isNaN(val) && val >= 1) {
+              curve.growth = val;
+              await this.plugin.saveSettings();
+              this.plugin.updateViews();
+            }
+          }));
+    }
+
+    if (curve.type === 'custom') {
+      new Setting(containerEl)
+        .setName('Level table')
+        .setDesc('Total EXP needed to reach level 2, 3, 4, ... separated by commas. Later levels repeat the last step.')
+        .addText(text => text
+          .setPlaceholder('100, 250, 500, 1000')
+          .setValue(curve.table.join(', '))
+          .onChange(async (value) => {
+            curve.table = value.split(',').map((v) => parseInt(v.trim(), 10)).filter((n) => !isNaN(n) && n > 0);
+            await this.plugin.saveSettings();
+            this.plugin.updateViews();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Task source')
+      .setDesc('How tasks are read from linked notes. Dataview also nests tasks written under plain list items. Automatic uses Dataview when it is installed.')
+      .addDropdown(dropdown => dropdown
+        .addOption('auto', 'Automatic')
+        .addOption('regex', 'Built-in parser')
+        .addOption('dataview', 'Dataview')
+        .setValue(this.plugin.settings.taskSource)
+        .onChange(async (value) => {
+          this.plugin.settings.taskSource = value as TaskSourceType;
+          await this.plugin.saveSettings();
+          this.plugin.updateViews();
+        }));
+
+    new Setting(containerEl)
+      .setName('Task statuses')
+      .setDesc('What each checkbox symbol means: todo, in-progress, done or cancelled. Unlisted symbols are todo. Cancelled tasks don\'t count toward completing a node.')
+      .addText(text => text
+        .setPlaceholder(formatTaskStatuses(DEFAULT_TASK_STATUSES))
+        .setValue(formatTaskStatuses(this.plugin.settings.taskStatuses))
+        .onChange(async (value) => {
+          const statuses = parseTaskStatuses(value);
+          if (Object.keys(statuses).length > 0) {
+            this.plugin.settings.taskStatuses = statuses;
+            await this.plugin.saveSettings();
+            this.plugin.updateViews();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Orbiting task order')
+      .setDesc('Order of the tasks around a node. Due dates and priorities use the Tasks format (📅 2024-05-01, ⏫) or Dataview fields ([due:: 2024-05-01], [priority:: high]).')
+      .addDropdown(dropdown => dropdown
+        .addOption('file', 'As in the note')
+        .addOption('due', 'Due date')
+        .addOption('priority', 'Priority')
+        .setValue(this.plugin.settings.taskSortOrder)
+        .onChange(async (value) => {
+          this.plugin.settings.taskSortOrder = value as TaskSortOrder;
+          await this.plugin.saveSettings();
+          this.plugin.updateViews();
+        }));
+
+    new Setting(containerEl)
+      .setName('Task heading')
+      .setDesc('Tasks added from the canvas are appended under this heading in the node\'s note. It is created if missing; leave empty to append at the end of the note.')
+      .addText(text => text
+        .setPlaceholder('## Tasks')
+        .setValue(this.plugin.settings.taskHeading)
+        .onChange(async (value) => {
+          this.plugin.settings.taskHeading = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('In-progress threshold')
+      .setDesc('Percent of its tasks a node without connections needs done to become in-progress instead of unavailable. 0 turns this off.')
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(String(this.plugin.settings.inProgressThreshold))
+        .onChange(async (value) => {
+          const val = parseInt(value, 10);
+          if (!isNaN(val) && val >= 0 && val <= 100) {
+            this.plugin.settings.inProgressThreshold = val;
+            await this.plugin.saveSettings();
+            this.plugin.updateViews();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Prerequisites in notes')
+      .setDesc('Keep a node\'s incoming connections in sync with the notes its note lists as prerequisites: a "prerequisites" frontmatter list or a list of links under a "Requires" heading. Editing the note updates the canvas and drawing a connection updates the note.')
+      .addDropdown(dropdown => dropdown
+        .addOption('off', 'Off')
+        .addOption('frontmatter', 'prerequisites: frontmatter list')
+        .addOption('heading', 'Links under "Requires"')
+        .setValue(this.plugin.settings.prerequisiteSource)
+        .onChange(async (value) => {
+          this.plugin.settings.prerequisiteSource = value as PrerequisiteSource;
+          await this.plugin.saveSettings();
+          this.plugin.updateViews();
+        }));
+
     new Setting(containerEl)
       .setName('Style')
       .setDesc('Visual style for the skill tree canvas')
       .addDropdown(dropdown => {
-        Object.keys(SKILL_TREE_STYLES).forEach(styleKey => {
-          dropdown.addOption(styleKey, SKILL_TREE_STYLES[styleKey].name);
+        const styles = getSkillTreeStyles(this.plugin.settings);
+        Object.keys(styles).forEach(styleKey => {
+          dropdown.addOption(styleKey, styles[styleKey].name);
         });
         dropdown.setValue(this.plugin.settings.style || 'default');
         dropdown.onChange(async (value) => {
           this.plugin.settings.style = value;
-          // For gamified style, force bezier to be enabled
-          if (value === 'gamified') {
+          // For gamified style (and its copies), force bezier to be enabled
+          if (getBaseStyleKey(this.plugin.settings, value) === 'gamified') {
             this.plugin.settings.showBezier = true;
           }
           await this.plugin.saveSettings();
@@ -212,6 +645,8 @@ class SkillTreeSettingTab extends PluginSettingTab {
         });
       });
 
+    this.displayStyleEditor(containerEl);
+
     // Default file path setting with autocomplete
     const folders = this.app.vault.getAllFolders();
     const folderPaths = ['']; // Start with root (empty string)
@@ -262,4 +697,154 @@ class SkillTreeSettingTab extends PluginSettingTab {
         };
       });
   }
+
+  // Clone, import and export custom styles, and edit the selected one; open trees redraw on every change
+  displayStyleEditor(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    const save = async () => {
+      await this.plugin.saveSettings();
+      this.plugin.updateViews();
+    };
+    // Color pickers report every step of a drag; save and redraw once the edit settles
+    const preview = debounce(save, 300, true);
+
+    new Setting(containerEl)
+      .setName('Custom styles')
+      .setDesc('Copy the selected style to change its colors, shapes and effects. Styles are shared as JSON.')
+      .addButton(button => button
+        .setButtonText('Clone style')
+        .onClick(async () => {
+          const clone = cloneSkillTreeStyle(settings, settings.style);
+          if (!clone) return;
+          settings.customStyles[clone.key] = clone.style;
+          settings.style = clone.key;
+          await save();
+          this.display();
+        }))
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(() => {
+          new StyleImportModal(this.app, async (json) => {
+            const imported = importSkillTreeStyles(settings, json);
+            Object.assign(settings.customStyles, imported);
+            await save();
+            this.display();
+            new Notice(`Imported ${Object.keys(imported).length} style(s)`);
+          }).open();
+        }))
+      .addButton(button => button
+        .setButtonText('Export')
+        .setDisabled(Object.keys(settings.customStyles).length === 0)
+        .onClick(async () => {
+          await navigator.clipboard.writeText(exportSkillTreeStyles(settings.customStyles));
+          new Notice('Custom styles copied to the clipboard as JSON');
+        }));
+
+    const key = settings.style;
+    const style: SkillTreeStyle | undefined = settings.customStyles[key];
+    if (!style) return;
+
+    new Setting(containerEl)
+      .setName('Style name')
+      .addText(text => text
+        .setValue(style.name)
+        .onChange(async (value) => {
+          if (!value.trim()) return;
+          style.name = value.trim();
+          preview();
+        }));
+
+    new Setting(containerEl)
+      .setName('Background color')
+      .addColorPicker(picker => picker
+        .setValue(toHexColor(style.backgroundColor))
+        .onChange(async (value) => {
+          style.backgroundColor = value;
+          preview();
+        }));
+
+    for (const state of NODE_COLOR_STATES) {
+      new Setting(containerEl)
+        .setName(NODE_COLOR_LABELS[state])
+        .setDesc('Fill and outline')
+        .addColorPicker(picker => picker
+          .setValue(toHexColor(style.nodeColors[state].fill))
+          .onChange(async (value) => {
+            style.nodeColors[state].fill = value;
+            preview();
+          }))
+        .addColorPicker(picker => picker
+          .setValue(toHexColor(style.nodeColors[state].stroke))
+          .onChange(async (value) => {
+            style.nodeColors[state].stroke = value;
+            preview();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Edge color')
+      .setDesc('Any CSS color, or "auto" to follow the theme')
+      .addText(text => text
+        .setPlaceholder('auto')
+        .setValue(style.edgeColor)
+        .onChange(async (value) => {
+          style.edgeColor = value.trim() || 'auto';
+          preview();
+        }));
+
+    new Setting(containerEl)
+      .setName('Edge glow')
+      .addToggle(toggle => toggle
+        .setValue(!!style.edgeGlow)
+        .onChange(async (value) => {
+          style.edgeGlow = value;
+          preview();
+        }));
+
+    new Setting(containerEl)
+      .setName('Node shape')
+      .setDesc('Shape of nodes whose note sets none')
+      .addDropdown(dropdown => {
+        NODE_SHAPE_OPTIONS.forEach(shape => dropdown.addOption(shape, shape.charAt(0).toUpperCase() + shape.slice(1)));
+        dropdown.setValue(style.nodeShape || 'circle');
+        dropdown.onChange(async (value) => {
+          style.nodeShape = value as SkillTreeStyle['nodeShape'];
+          preview();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Edge style')
+      .addDropdown(dropdown => {
+        EDGE_STYLE_OPTIONS.forEach(edgeStyle => dropdown.addOption(edgeStyle, edgeStyle.charAt(0).toUpperCase() + edgeStyle.slice(1)));
+        dropdown.setValue(style.edgeStyle || 'straight');
+        dropdown.onChange(async (value) => {
+          style.edgeStyle = value as SkillTreeStyle['edgeStyle'];
+          preview();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Animated')
+      .setDesc('Animate edges between active nodes')
+      .addToggle(toggle => toggle
+        .setValue(!!style.animated)
+        .onChange(async (value) => {
+          style.animated = value;
+          preview();
+        }));
+
+    new Setting(containerEl)
+      .setName('Delete style')
+      .setDesc(`Remove "${style.name}" and switch back to the style it was cloned from`)
+      .addButton(button => button
+        .setButtonText('Delete')
+        .setWarning()
+        .onClick(async () => {
+          delete settings.customStyles[key];
+          settings.style = style.base || 'gamified';
+          await save();
+          this.display();
+        }));
+  }
 }
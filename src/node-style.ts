@@ -0,0 +1,86 @@
+import { getIcon } from 'obsidian';
+
+/**
+ * Per-node look set in the linked note's frontmatter. Each value overrides the
+ * tree's style (or the node's own title and icon) for that node only.
+ */
+export interface NodeStyleOverrides {
+  /** `skilltree-color`: fill color, any CSS color */
+  color?: string;
+  /** `skilltree-icon`: Lucide icon name or emoji */
+  icon?: string;
+  /** `skilltree-size`: scale of the node and its label, 1 = the size the label needs */
+  size?: number;
+  /** `skilltree-label`: text drawn instead of the title */
+  label?: string;
+}
+
+/** Frontmatter key of each override */
+export const NODE_STYLE_KEYS: Record<keyof NodeStyleOverrides, string> = {
+  color: 'skilltree-color',
+  icon: 'skilltree-icon',
+  size: 'skilltree-size',
+  label: 'skilltree-label',
+};
+
+export const MIN_NODE_SIZE = 0.5;
+export const MAX_NODE_SIZE = 3;
+
+// Whether each name checked by isLucideIcon is a known icon; checked on every render
+const lucideIcons = new Map<string, boolean>();
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Read the style overrides of a note's frontmatter. Sizes are clamped to
+ * {@link MIN_NODE_SIZE}..{@link MAX_NODE_SIZE}; invalid values are ignored.
+ * @param frontmatter Frontmatter from the metadata cache.
+ */
+export function readNodeStyle(frontmatter: Record<string, unknown> | undefined): NodeStyleOverrides {
+  if (!frontmatter) return {};
+  const style: NodeStyleOverrides = {};
+  const color = text(frontmatter[NODE_STYLE_KEYS.color]);
+  const icon = text(frontmatter[NODE_STYLE_KEYS.icon]);
+  const size = Number(frontmatter[NODE_STYLE_KEYS.size]);
+  const label = text(frontmatter[NODE_STYLE_KEYS.label]);
+  if (color) style.color = color;
+  if (icon) style.icon = icon;
+  if (frontmatter[NODE_STYLE_KEYS.size] != null && Number.isFinite(size) && size > 0) {
+    style.size = Math.min(MAX_NODE_SIZE, Math.max(MIN_NODE_SIZE, size));
+  }
+  if (label) style.label = label;
+  return style;
+}
+
+/**
+ * Whether an icon names a Lucide icon (`star`, `lucide-star`) rather than an emoji or text.
+ * @param icon Value of `skilltree-icon`.
+ */
+export function isLucideIcon(icon: string): boolean {
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(icon)) return false;
+  let known = lucideIcons.get(icon);
+  if (known === undefined) {
+    known = !!(getIcon(icon) || getIcon(`lucide-${icon}`));
+    lucideIcons.set(icon, known);
+  }
+  return known;
+}
+
+/**
+ * SVG markup of a Lucide icon drawn in a color, ready for an image data URL.
+ * @param name Icon name, with or without the `lucide-` prefix.
+ * @param color Stroke color.
+ * @returns The markup, or null when Obsidian has no such icon.
+ */
+export function getLucideIconSvg(name: string, color: string): string | null {
+  const svg = getIcon(name) || getIcon(`lucide-${name}`);
+  if (!svg) return null;
+  svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  svg.setAttribute('width', '24');
+  svg.setAttribute('height', '24');
+  svg.setAttribute('stroke', color);
+  return new XMLSerializer().serializeToString(svg);
+}
@@ -0,0 +1,110 @@
+import { App, TFile } from 'obsidian';
+import { SkillNode, SkillTreeSettings } from './interfaces';
+import { getNodeExpProgress } from './exp';
+import { createDataviewTaskSource, createRegexTaskSource, deriveParentCompletion, TaskItem, TaskSource } from './task-data';
+import { getQueryTasks, mergeTaskLists } from './task-query';
+import { getNoteLinkPath } from './tree-files';
+
+/** Settings deciding how the tasks of a node are read */
+export type NodeTaskSettings = Pick<SkillTreeSettings, 'taskSource' | 'taskStatuses'>;
+
+/**
+ * Whether the Dataview plugin is installed.
+ * @param app The app.
+ */
+export function isDataviewInstalled(app: App): boolean {
+  // @ts-expect-error
+  return !!app.plugins?.plugins?.['dataview'];
+}
+
+/**
+ * Task source picked in the settings; "auto" uses Dataview when it is installed.
+ * @param app The app.
+ * @param settings Plugin settings.
+ */
+export function getTaskSource(app: App, settings: NodeTaskSettings): TaskSource {
+  const source = settings.taskSource || 'auto';
+  const useDataview = source === 'dataview' || (source === 'auto' && isDataviewInstalled(app));
+  return useDataview ? createDataviewTaskSource(app) : createRegexTaskSource(app);
+}
+
+/**
+ * Note a node's `fileLink` points at, or null if there is none.
+ * @param app The app.
+ * @param fileLink The node's `fileLink`.
+ */
+export function getLinkedNote(app: App, fileLink: string): TFile | null {
+  // Links to files other than notes are stored as is
+  const file = app.vault.getAbstractFileByPath(getNoteLinkPath(fileLink))
+    || (fileLink.trim().endsWith('.md') ? null : app.vault.getAbstractFileByPath(fileLink.trim()));
+  return file instanceof TFile ? file : null;
+}
+
+/**
+ * Tasks of a node: its linked note's tasks, then the tasks matching its task query,
+ * with parents whose subtasks are all done marked as completed.
+ * Every task keeps the `filePath` and `line` it was read from, so toggling writes to the right note.
+ * @param app The app.
+ * @param node The node.
+ * @param settings Plugin settings.
+ */
+export async function loadNodeTasks(app: App, node: SkillNode, settings: NodeTaskSettings): Promise<TaskItem[]> {
+  const source = getTaskSource(app, settings);
+  const lists: TaskItem[][] = [];
+  const file = node.fileLink ? getLinkedNote(app, node.fileLink) : null;
+  if (node.fileLink && file) {
+    try {
+      const tasks = await source.getTasks(file, settings.taskStatuses);
+      tasks.forEach((task) => { task.filePath = node.fileLink; });
+      lists.push(tasks);
+    } catch (e) {
+      console.warn(`Failed to read tasks from ${file.path}:`, e);
+    }
+  }
+  if (node.taskQuery?.trim()) {
+    try {
+      lists.push(await getQueryTasks(app, node.taskQuery, source, settings.taskStatuses));
+    } catch (e) {
+      console.warn('Failed to run task query:', e);
+    }
+  }
+  return deriveParentCompletion(mergeTaskLists(lists));
+}
+
+/**
+ * EXP and task counts of a tree.
+ */
+export interface TreeProgress {
+  earnedExp: number;
+  totalExp: number;
+  completedTasks: number;
+  /** Tasks of all nodes, cancelled ones aside */
+  totalTasks: number;
+}
+
+/**
+ * Add up the EXP and tasks of a tree's nodes, reading each node's tasks like the canvas does.
+ * @param app The app.
+ * @param nodes The tree's nodes.
+ * @param settings Plugin settings.
+ * @param onNodeTasks Called with the tasks read for each node.
+ */
+export async function getTreeProgress(
+  app: App,
+  nodes: readonly SkillNode[],
+  settings: NodeTaskSettings & Pick<SkillTreeSettings, 'expFromTasks'>,
+  onNodeTasks?: (node: SkillNode, tasks: TaskItem[]) => void
+): Promise<TreeProgress> {
+  const progress: TreeProgress = { earnedExp: 0, totalExp: 0, completedTasks: 0, totalTasks: 0 };
+  for (const node of nodes) {
+    const tasks = node.fileLink || node.taskQuery ? await loadNodeTasks(app, node, settings) : [];
+    onNodeTasks?.(node, tasks);
+    const counted = tasks.filter((t) => !t.cancelled);
+    progress.totalTasks += counted.length;
+    progress.completedTasks += counted.filter((t) => t.completed).length;
+    const exp = getNodeExpProgress(node, tasks, !!settings.expFromTasks);
+    progress.earnedExp += exp.earned;
+    progress.totalExp += exp.total;
+  }
+  return progress;
+}
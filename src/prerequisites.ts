@@ -0,0 +1,173 @@
+import { App, TFile, getLinkpath } from 'obsidian';
+import { PrerequisiteSource } from './interfaces';
+
+/** Frontmatter list of a note's prerequisites */
+export const PREREQUISITES_FIELD = 'prerequisites';
+/** Heading whose links are a note's prerequisites */
+export const PREREQUISITES_HEADING = 'Requires';
+
+// `[[Note|Alias]]`, `[[Note#Heading]]` or a plain `Note` -> `Note`
+function linkpathOf(entry: string): string {
+  const inner = entry.trim().replace(/^!?\[\[/, '').replace(/\]\]$/, '');
+  return getLinkpath(inner.split('|')[0]);
+}
+
+// A list item holding nothing but one link, e.g. `- [[Note]]`; other lines under the heading are prose
+const LINK_ITEM = /^\s*[-*+]\s+(!?\[\[[^\]]+\]\])\s*$/;
+
+// Lines under the prerequisites heading: [first, end)
+function findRequiresSection(lines: string[]): { heading: number; end: number } | null {
+  const heading = lines.findIndex((l) => {
+    const match = l.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    return !!match && match[2].toLowerCase() === PREREQUISITES_HEADING.toLowerCase();
+  });
+  if (heading < 0) return null;
+  const level = (lines[heading].match(/^#+/) as RegExpMatchArray)[0].length;
+  let end = heading + 1;
+  while (end < lines.length) {
+    const match = lines[end].match(/^(#{1,6})\s/);
+    if (match && match[1].length <= level) break;
+    end++;
+  }
+  return { heading, end };
+}
+
+// An unquoted `[[Note]]` in YAML is a list holding a list: `[['Note']]`
+function fromYamlLink(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.length === 1 && Array.isArray(value[0]) && value[0].length === 1 && typeof value[0][0] === 'string') {
+    return `[[${value[0][0]}]]`;
+  }
+  return null;
+}
+
+/**
+ * Read a `prerequisites` frontmatter value. Unquoted links (`- [[Note]]`) are turned back into `[[Note]]`.
+ * @param value The frontmatter value.
+ * @returns The entries, or null if some item is neither text nor a link.
+ */
+export function parsePrerequisiteField(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  // A single unquoted link is the whole value; a list of them has one per item
+  const single = fromYamlLink(value);
+  const list: unknown[] = single !== null ? [single] : Array.isArray(value) ? value : [value];
+  const entries: string[] = [];
+  for (const item of list) {
+    if (item === null || item === '') continue;
+    const entry = fromYamlLink(item);
+    if (entry === null) return null;
+    if (entry.trim() !== '') entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Prerequisite entries written in a note: the items of its `prerequisites`
+ * frontmatter list, or the links listed as items under its "Requires" heading.
+ * @param app The app.
+ * @param file The note.
+ * @param source Where prerequisites are written.
+ * @param content The note's content, needed for `heading`.
+ * @returns The entries, or null when the frontmatter list holds values that are not
+ * links; the note and its edges are then left alone.
+ */
+export function readPrerequisiteEntries(app: App, file: TFile, source: PrerequisiteSource, content?: string): string[] | null {
+  if (source === 'frontmatter') {
+    return parsePrerequisiteField(app.metadataCache.getFileCache(file)?.frontmatter?.[PREREQUISITES_FIELD]);
+  }
+  if (source === 'heading' && content !== undefined) {
+    const lines = content.split('\n');
+    const section = findRequiresSection(lines);
+    if (!section) return [];
+    return lines.slice(section.heading + 1, section.end).flatMap((l): string[] => {
+      const match = l.match(LINK_ITEM);
+      return match ? [match[1]] : [];
+    });
+  }
+  return [];
+}
+
+/**
+ * Resolve a prerequisite entry to a note, like a link in the note would be.
+ * @param app The app.
+ * @param entry `[[Note]]` or `Note`.
+ * @param sourcePath Path of the note the entry is written in.
+ */
+export function resolvePrerequisite(app: App, entry: string, sourcePath: string): TFile | null {
+  const linkpath = linkpathOf(entry);
+  return linkpath ? app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath) : null;
+}
+
+/**
+ * Work out the prerequisite entries a note should have: entries naming notes
+ * outside the tree (or nothing) are kept, entries of tree notes that are no
+ * longer prerequisites are dropped, and missing prerequisites are appended as links.
+ * @param app The app.
+ * @param sourcePath Path of the note.
+ * @param entries The note's current entries.
+ * @param wanted Notes of the node's prerequisites.
+ * @param isTreeNote Whether a note is linked to a node of the tree.
+ */
+export function mergePrerequisiteEntries(
+  app: App,
+  sourcePath: string,
+  entries: readonly string[],
+  wanted: readonly TFile[],
+  isTreeNote: (path: string) => boolean
+): string[] {
+  const wantedPaths = new Set(wanted.map((f) => f.path));
+  const present = new Set<string>();
+  const result: string[] = [];
+  for (const entry of entries) {
+    const target = resolvePrerequisite(app, entry, sourcePath);
+    if (target && wantedPaths.has(target.path)) {
+      if (present.has(target.path)) continue;
+      present.add(target.path);
+      result.push(entry);
+    } else if (!target || !isTreeNote(target.path)) {
+      result.push(entry);
+    }
+  }
+  for (const file of wanted) {
+    if (!present.has(file.path)) result.push(`[[${app.metadataCache.fileToLinktext(file, sourcePath, true)}]]`);
+  }
+  return result;
+}
+
+/**
+ * Rewrite the link items under a note's "Requires" heading: items whose link is
+ * not an entry are removed and missing entries are added after the last list item.
+ * Prose, blank lines and other items are kept as they are. The heading is added at
+ * the end of the note if it is missing.
+ * @param content The note's content.
+ * @param entries Links to list, e.g. from {@link mergePrerequisiteEntries}.
+ */
+export function writeRequiresSection(content: string, entries: readonly string[]): string {
+  const lines = content.split('\n');
+  const section = findRequiresSection(lines);
+  if (!section) {
+    if (entries.length === 0) return content;
+    const trimmed = content.replace(/\s+$/, '');
+    return `${trimmed}${trimmed ? '\n\n' : ''}## ${PREREQUISITES_HEADING}\n${entries.map((e) => `- ${e}`).join('\n')}\n`;
+  }
+  const missing = [...entries];
+  const body: string[] = [];
+  // Where new items go: after the last list item, or right below the heading
+  let insertAt = 0;
+  for (const line of lines.slice(section.heading + 1, section.end)) {
+    const match = line.match(LINK_ITEM);
+    if (match) {
+      const index = missing.indexOf(match[1]);
+      if (index < 0) continue;
+      missing.splice(index, 1);
+    }
+    body.push(line);
+    if (/^\s*([-*+]|\d+[.)])\s/.test(line)) insertAt = body.length;
+  }
+  const items = missing.map((e) => `- ${e}`);
+  // Keep new items below the heading apart from the prose or heading that follows it
+  const next = body.length > 0 ? body[0] : lines[section.end];
+  if (items.length > 0 && insertAt === 0 && next !== undefined && next.trim() !== '') items.push('');
+  body.splice(insertAt, 0, ...items);
+  return [...lines.slice(0, section.heading + 1), ...body, ...lines.slice(section.end)].join('\n');
+}
@@ -1,12 +1,31 @@
-import {ItemView, WorkspaceLeaf, TFile } from 'obsidian';
+import { App, FuzzySuggestModal, Notice, TextFileView, WorkspaceLeaf, TFile, debounce, moment } from 'obsidian';
 
-import { SkillNode, SkillEdge, SkillTreeSettings, SkillTreeData, SKILL_TREE_STYLES } from './interfaces';
+import { HistoryEntry, HistorySource, NodeId, SkillNode, SkillEdge, SkillTreeSettings, SkillTreeData, SkillTreeStyle, TaskStatusType, UnlockRule } from './interfaces';
 import  {VIEW_TYPE_SKILLTREE}  from './main';
 import SkillTreePlugin from './main';
 import { chooseEdgeColor, computeBezierControls, drawBezierArrow, drawRigidBezierArrow, drawArrow, parseCSSColor, distanceSqToBezier } from './drawing';
 import { Coordinate } from './types';
 import { ModalStyleOptions } from './types';
-import { DEFAULT_MODAL_STYLES } from './constants';
+import { DEFAULT_MODAL_STYLES, TREE_FILE_EXTENSION } from './constants';
+import { createTreeFile, getNoteLinkPath, getTreeFiles, isTreeFile, parseTreeData, retargetNoteLinks, serializeTreeData } from './tree-files';
+import { findCycleForNewEdge, findCycles } from './graph';
+import { TaskItem } from './task-data';
+import { getTreeProgress, isDataviewInstalled, loadNodeTasks } from './node-tasks';
+import { checkTaskQuery, taskQueryMayMatch } from './task-query';
+import { createGetTasksApi, getTaskStatusType, insertTaskUnderHeading, TASK_STATUS_COLORS, toggleCheckboxLine } from './tasks';
+import { DEFAULT_TASK_EXP, ExpProgress, getLevelInfo, getNodeExpProgress, stripTaskExp } from './exp';
+import { compareTasks, isTaskOverdue, PRIORITY_ICONS, stripTaskMetadata, TaskPriority } from './task-metadata';
+import { diffProgress, NodeProgressSnapshot, summarizeHistoryByDay } from './history';
+import { generateId, idsEqual, migrateLegacyIds, normalizeId } from './ids';
+import { applyFrontmatterSync, describeFrontmatterConflict, FrontmatterConflict, FrontmatterSyncPlan, planFrontmatterSync } from './frontmatter-sync';
+import { getBaseStyleKey, getSkillTreeStyle } from './styles';
+import { getLucideIconSvg, isLucideIcon, MAX_NODE_SIZE, MIN_NODE_SIZE, NODE_STYLE_KEYS, NodeStyleOverrides, readNodeStyle } from './node-style';
+import { mergePrerequisiteEntries, PREREQUISITES_FIELD, readPrerequisiteEntries, resolvePrerequisite, writeRequiresSection } from './prerequisites';
+import { computeNodeStates, formatUnlockRule, getRequiredPrerequisiteCount, getTaskProgress, parseUnlockRule, StateEngineResult, TaskCompletion } from './state-engine';
+
+// Screen size of the checkmark drawn on a selected done task, and of the checkbox of an open one
+const TASK_CHECKMARK_SIZE = 18;
+const TASK_CHECKBOX_SIZE = 16;
 
 /**
  * Draw a hexagon shape
@@ -67,18 +86,45 @@ function defaultNodes(): SkillNode[] {
   // Note: Shape will be set based on current style when nodes are actually used
   // This is just a placeholder - the actual shape will be set in loadNodes or addNode
   return [
-    { id: Date.now(), x: 200, y: 150, state: 'unavailable', exp: 10 },
-    { id: Date.now() + 1, x: 200, y: 150, state: 'unavailable', exp: 10 },
+    { id: generateId(), x: 200, y: 150, state: 'unavailable', exp: 10 },
+    { id: generateId(), x: 200, y: 150, state: 'unavailable', exp: 10 },
   ];
 }
 
+/**
+ * Fuzzy picker over the vault's notes, used to relink a node.
+ * @internal
+ */
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+  onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose a note to link');
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  getItemText(item: TFile): string {
+    return item.path;
+  }
+
+  onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+    this.onChoose(item);
+  }
+}
+
 /**
  * View that renders and manages the interactive Skill Tree canvas.
  *
- * This class extends Obsidian's `ItemView` and handles node/edge
- * rendering, input handling, and integrations with task/dataview plugins.
+ * This class extends Obsidian's `TextFileView` so each tree is backed by its
+ * own `.skilltree` file, and handles node/edge rendering, input handling, and
+ * integrations with task/dataview plugins.
  */
-export class SkillTreeView extends ItemView {
+export class SkillTreeView extends TextFileView {
   /** The canvas that this plugin will render to */
   canvas: HTMLCanvasElement | null = null;
 
@@ -104,7 +150,7 @@ export class SkillTreeView extends ItemView {
   edges: SkillEdge[] = [];
 
   /** Information about where a mouse drag starts from a node id and its coordinates */
-  _dragStart: { nodeId: number; x: number; y: number } | null = null;
+  _dragStart: { nodeId: NodeId; x: number; y: number } | null = null;
   
   /** TODO */
   _dragStartScreen: Coordinate | null = null;
@@ -122,13 +168,13 @@ export class SkillTreeView extends ItemView {
   tempEdgeTarget: { x: number; y: number } | null = null;
   
   /** TODO */
-  nodeRadii: Record<number, number> = {};
+  nodeRadii: Record<NodeId, number> = {};
   
   /** TODO */
-  selectedNodeId: number | null = null;
+  selectedNodeId: NodeId | null = null;
   
   /** TODO */
-  selectedTask: { nodeId: number; taskIndex: number } | null = null;
+  selectedTask: { nodeId: NodeId; taskIndex: number } | null = null;
   
   /** TODO */
   historyPast: any[] = [];
@@ -143,7 +189,7 @@ export class SkillTreeView extends ItemView {
   modalOutsideListener: ((e: Event) => void) | null = null;
   
   /** TODO */
-  draggingEdgeEndpoint: { edgeId: number; which: 'from' | 'to' } | null = null;
+  draggingEdgeEndpoint: { edgeId: NodeId; which: 'from' | 'to' } | null = null;
   
   /** TODO */
   _edgeDragActive = false;
@@ -164,20 +210,45 @@ export class SkillTreeView extends ItemView {
   _animationFrameId: number | null = null;
   
   /** Track previous node states to detect state changes */
-  _previousNodeStates: Map<number, string> = new Map();
+  _previousNodeStates: Map<NodeId, string> = new Map();
   
   /** Track active state change animations (nodeId -> { type, startTime }) */
-  _nodeStateChangeAnimations: Map<number, { type: 'in-progress' | 'complete', startTime: number }> = new Map();
+  _nodeStateChangeAnimations: Map<NodeId, { type: 'in-progress' | 'complete', startTime: number }> = new Map();
   
   /** Track previous total exp to detect when it reaches total available */
   _previousTotalExp: number = 0;
   
-  /** Track exp overlay animation when exp equals total */
+  /** Track exp overlay animation when exp equals total or a level is gained */
   _expOverlayAnimation: { startTime: number; active: boolean } | null = null;
+
+  /** Append-only progress history of this tree, persisted in the tree file */
+  history: HistoryEntry[] = [];
+
+  /** Node states and earned EXP after the last logged change (null while a tree is loading) */
+  _historyBaseline: Map<NodeId, NodeProgressSnapshot> | null = null;
+
+  /** Node the user just changed and how, so history can tell it apart from rule cascades */
+  _historyCause: { nodeId: NodeId; source: HistorySource } | null = null;
+
+  /** Last seen tree and global levels (0 = not yet known) to detect level-ups */
+  _previousLevel = 0;
+  _previousGlobalLevel = 0;
+
+  /** EXP earned in all other tree files, and how many there are, for the global level */
+  _otherTreesExp = 0;
+  _otherTreeCount = 0;
+  /** Notes the other trees read tasks from, see refreshOtherTreesExp() */
+  _otherTreesPaths: Set<string> = new Set();
   
   /** Track task children modal */
   _taskChildrenModal: HTMLElement | null = null;
 
+  /** Toolbar dropdown listing the `.skilltree` files in the vault */
+  treeSelectEl: HTMLSelectElement | null = null;
+
+  /** Set when the opened file could not be parsed, so it is never overwritten */
+  _treeLoadFailed = false;
+
   
   
   constructor(leaf: WorkspaceLeaf, plugin: SkillTreePlugin) {
@@ -194,7 +265,86 @@ export class SkillTreeView extends ItemView {
   }
 
   getDisplayText(): string {
-    return 'Skill Tree';
+    return this.file ? this.file.basename : 'Skill Tree';
+  }
+
+  canAcceptExtension(extension: string): boolean {
+    return extension === TREE_FILE_EXTENSION;
+  }
+
+  /** Serialize the current tree for writing back to the `.skilltree` file */
+  getViewData(): string {
+    if (this._treeLoadFailed) return this.data;
+    return serializeTreeData(this.exportTree());
+  }
+
+  /** Called by Obsidian with the contents of the opened `.skilltree` file */
+  setViewData(data: string, clear: boolean): void {
+    let tree: SkillTreeData;
+    try {
+      tree = parseTreeData(data, this.file?.basename || 'skill-tree');
+    } catch (e) {
+      console.error('Failed to parse skill tree file:', e);
+      this._treeLoadFailed = true;
+      this.clear();
+      this.render();
+      this.openErrorModal(`"${this.file?.path}" is not a valid skill tree file.`);
+      return;
+    }
+    this._treeLoadFailed = false;
+    // Trees created before string ids use float ids; give them stable string ids
+    const migrated = migrateLegacyIds(tree);
+    this.nodes = migrated.data.nodes;
+    this.edges = migrated.data.edges;
+    this.history = Array.isArray(migrated.data.history) ? migrated.data.history : [];
+    if (clear) {
+      this.historyPast = [];
+      this.historyFuture = [];
+      this.selectedNodeId = null;
+      this.selectedTask = null;
+    }
+    const ready = migrated.data !== tree ? this.migrateNoteIds(migrated.idMap) : Promise.resolve();
+    ready
+      .then(() => this.loadTree())
+      .then(() => { if (migrated.data !== tree) this.saveNodes(); })
+      .catch((e) => console.error('Failed to load skill tree:', e));
+  }
+
+  // Rewrite legacy ids in notes' skilltree-node, skilltree-node-to and skilltree-node-from fields
+  async migrateNoteIds(idMap: Map<string, NodeId>): Promise<void> {
+    if (idMap.size === 0) return;
+    const fields = ['skilltree-node', 'skilltree-node-to', 'skilltree-node-from'];
+    const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+    const mapId = (value: unknown) => idMap.get(normalizeId(value) ?? '');
+    const mapList = (value: unknown) => asList(value).map((v) => mapId(v) ?? v);
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) continue;
+      if (!fields.some((key) => asList(frontmatter[key]).some((v) => mapId(v) !== undefined))) continue;
+      try {
+        await this.app.fileManager.processFrontMatter(file, (fm) => {
+          if (fm['skilltree-node'] !== undefined) fm['skilltree-node'] = mapId(fm['skilltree-node']) ?? fm['skilltree-node'];
+          if (fm['skilltree-node-to'] !== undefined) fm['skilltree-node-to'] = mapList(fm['skilltree-node-to']);
+          if (fm['skilltree-node-from'] !== undefined) fm['skilltree-node-from'] = mapList(fm['skilltree-node-from']);
+        });
+      } catch (e) {
+        console.warn(`Failed to migrate skill tree ids in ${file.path}:`, e);
+      }
+    }
+  }
+
+  /** Reset view state before another file is loaded */
+  clear(): void {
+    this.nodes = [];
+    this.edges = [];
+    this.history = [];
+    this._historyBaseline = null;
+    this.historyPast = [];
+    this.historyFuture = [];
+    this.selectedNodeId = null;
+    this.selectedTask = null;
+    this.closeTaskChildrenModal();
+    this.closeAllModals();
   }
 
   // Check if Tasks plugin is installed
@@ -213,30 +363,11 @@ export class SkillTreeView extends ItemView {
 
   // Check if Tasks plugin is installed
   isDataviewPluginInstalled(): boolean {
-    try {
-      // Check if Tasks plugin is available
-      const dataviewPlugin = (this.app as any).plugins?.plugins?.['dataview'];
-      if (dataviewPlugin) return true;
-      
-      return false;
-    } catch (e) {
-      return false;
-    }
+    return isDataviewInstalled(this.app);
   }
 
 
 
-  // Get Tasks plugin instance
-  getTasksPlugin(): any {
-    try {
-      return (this.app as any).plugins?.plugins?.['obsidian-tasks-plugin'] || 
-             (this.app as any).plugins?.plugins?.['tasks'] || 
-             null;
-    } catch (e) {
-      return null;
-    }
-  }
-
   // Parse front matter from a file and extract shape using Dataview if available
   async getNodeShapeFromFile(filePath: string): Promise<'circle' | 'square' | 'hexagon' | 'diamond'> {
     try {
@@ -245,8 +376,7 @@ export class SkillTreeView extends ItemView {
       if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
 
       // Get default shape based on current style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       const defaultShape = styleDef?.nodeShape || 'circle';
 
       // Try to use Dataview API if available
@@ -291,8 +421,7 @@ export class SkillTreeView extends ItemView {
       return defaultShape as 'circle' | 'square' | 'hexagon' | 'diamond';
     } catch (e) {
       // Return default shape based on style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       const defaultShape = styleDef?.nodeShape || 'circle';
       return defaultShape as 'circle' | 'square' | 'hexagon' | 'diamond';
     }
@@ -323,66 +452,155 @@ export class SkillTreeView extends ItemView {
     return path;
   }
 
-  // Update frontmatter of a file to include skilltree-node association
-  async updateFileFrontmatterWithNodeId(filePath: string, nodeId: number): Promise<void> {
+  /**
+   * Write the tree's node ids, EXP, shapes and connections to the linked notes, see
+   * planFrontmatterSync. Only values that differ from the metadata cache are written.
+   * Unlinked nodes claimed by a single note get linked to it; conflicts are kept for
+   * the validate modal instead of being overwritten.
+   * Passes run one at a time; a call during a pass runs once the pass is done.
+   */
+  async syncFrontmatter(options: { claim?: NodeId[]; scanVault?: boolean } = {}): Promise<FrontmatterSyncPlan> {
+    while (this._frontmatterSync) {
+      try { await this._frontmatterSync; } catch (e) {}
+    }
+    const pass = this.runFrontmatterSync(options);
+    this._frontmatterSync = pass;
     try {
-      let normalizedPath = filePath.trim();
-      if (normalizedPath.startsWith('/')) normalizedPath = normalizedPath.substring(1);
-      if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
+      return await pass;
+    } finally {
+      this._frontmatterSync = null;
+    }
+  }
 
-      const file = this.app.vault.getAbstractFileByPath(normalizedPath);
-      if (!file || !(file instanceof TFile)) return;
+  async runFrontmatterSync(options: { claim?: NodeId[]; scanVault?: boolean }): Promise<FrontmatterSyncPlan> {
+    // Get default shape based on current style
+    const styleDef = this.getStyleDef();
+    let defaultShape = styleDef?.nodeShape || 'circle';
+    // Filter out 'star' as it's not a valid node shape (only style shape)
+    if (defaultShape === 'star') {
+      defaultShape = 'circle';
+    }
+    const source = this.settings.prerequisiteSource || 'off';
+    const plan = planFrontmatterSync(this.app, this.nodes, this.edges, { ...options, defaultShape, prerequisiteField: source === 'frontmatter' });
 
-      // Get the node to access its shape
-      const node = this.nodes.find(n => n.id === nodeId);
-      // Get default shape based on current style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
-      let defaultShape = styleDef?.nodeShape || 'circle';
-      // Filter out 'star' as it's not a valid node shape (only style shape)
-      if (defaultShape === 'star') {
-        defaultShape = 'circle';
+    for (const link of plan.links) {
+      const node = this.nodes.find((n) => n.id === link.nodeId);
+      if (node) node.fileLink = link.path.replace(/\.md$/, '');
+    }
+    if (plan.links.length > 0) {
+      try { await this.saveNodes(); } catch (e) {}
+    }
+    await applyFrontmatterSync(this.app, plan);
+    const requiresChanged = source === 'heading' && await this.writeRequiresSections();
+
+    const before = this._frontmatterConflicts.map((c) => JSON.stringify(c));
+    this._frontmatterConflicts = plan.conflicts;
+    const newConflicts = plan.conflicts.filter((c) => !before.includes(JSON.stringify(c)));
+    for (const conflict of newConflicts) {
+      console.warn(`Skill tree frontmatter conflict: ${describeFrontmatterConflict(conflict, (id) => this.formatNodePath([id]))}`);
+    }
+    if (plan.changes.length > 0 || plan.links.length > 0 || newConflicts.length > 0 || requiresChanged) this.render();
+    return plan;
+  }
+
+  // Notes of a node's prerequisites (the nodes of its incoming edges) that exist
+  getPrerequisiteFiles(node: SkillNode): TFile[] {
+    const files: TFile[] = [];
+    for (const e of this.edges) {
+      if (e.to !== node.id) continue;
+      const from = this.nodes.find((n) => n.id === e.from);
+      const path = from && !from.brokenLink ? this.getNodeFilePath(from) : null;
+      const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+      if (file instanceof TFile && !files.includes(file)) files.push(file);
+    }
+    return files;
+  }
+
+  // List each node's prerequisites under the "Requires" heading of its note; links to notes outside the tree are kept
+  async writeRequiresSections(): Promise<boolean> {
+    let changed = false;
+    const isTreeNote = (path: string) => this.getNodesForPath(path).length > 0;
+    for (const node of this.nodes) {
+      const path = node.brokenLink ? null : this.getNodeFilePath(node);
+      const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+      // Notes linked by several nodes are reported as conflicts, not written
+      if (!path || !(file instanceof TFile) || this.getNodesForPath(path).length > 1) continue;
+      const wanted = this.getPrerequisiteFiles(node);
+      const merge = (content: string) => {
+        const entries = readPrerequisiteEntries(this.app, file, 'heading', content) || [];
+        const desired = mergePrerequisiteEntries(this.app, path, entries, wanted, isTreeNote);
+        return desired.join('\n') === entries.join('\n') ? null : desired;
+      };
+      try {
+        if (!merge(await this.app.vault.cachedRead(file))) continue;
+        await this.app.vault.process(file, (data) => {
+          const desired = merge(data);
+          return desired ? writeRequiresSection(data, desired) : data;
+        });
+        changed = true;
+      } catch (e) {
+        console.warn(`Failed to update prerequisites of ${path}:`, e);
       }
-      const nodeShape = node?.shape || defaultShape;
-      
-      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-        // Always update skilltree-node to reflect current node ID
-        frontmatter['skilltree-node'] = nodeId;
-        // Set default exp if not already set
-        if (frontmatter['skilltree-node-exp'] === undefined) {
-          frontmatter['skilltree-node-exp'] = 10;
-        }
-        // Set default shape if not already set
-        if (frontmatter['shape'] === undefined) {
-          frontmatter['shape'] = nodeShape;
-        }
-        
-        // Always update connections
-        const outgoing = this.edges.filter(edge => edge.from === nodeId).map(edge => edge.to);
-        const incoming = this.edges.filter(edge => edge.to === nodeId).map(edge => edge.from);
-        
-        if (outgoing.length > 0) {
-          frontmatter['skilltree-node-to'] = outgoing;
-        } else {
-          delete frontmatter['skilltree-node-to'];
-        }
-        
-        if (incoming.length > 0) {
-          frontmatter['skilltree-node-from'] = incoming;
-        } else {
-          delete frontmatter['skilltree-node-from'];
+    }
+    return changed;
+  }
+
+  // Make the edges into nodes match the prerequisites listed in their notes. Missing edges are added
+  // unless they would close a cycle; with `removeMissing`, edges from nodes whose note is not listed are removed
+  async syncPrerequisiteEdges(nodes: SkillNode[], removeMissing: boolean): Promise<boolean> {
+    const source = this.settings.prerequisiteSource || 'off';
+    if (source === 'off') return false;
+    let changed = false;
+    for (const node of nodes) {
+      const path = node.brokenLink ? null : this.getNodeFilePath(node);
+      const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+      if (!path || !(file instanceof TFile)) continue;
+      const content = source === 'heading' ? await this.app.vault.cachedRead(file) : undefined;
+      const entries = readPrerequisiteEntries(this.app, file, source, content);
+      // Values that are not links can't be told apart from removed prerequisites; keep the edges as they are
+      if (!entries) {
+        console.warn(`Skipping prerequisites of ${path}, the "${PREREQUISITES_FIELD}" list holds values that are not links`);
+        continue;
+      }
+      const listed = new Set<NodeId>();
+      for (const entry of entries) {
+        const target = resolvePrerequisite(this.app, entry, path);
+        if (!target) continue;
+        this.getNodesForPath(target.path).filter((n) => n.id !== node.id).forEach((n) => listed.add(n.id));
+      }
+
+      for (const fromId of listed) {
+        if (this.edges.some((ee) => ee.from === fromId && ee.to === node.id)) continue;
+        const fromNode = this.nodes.find((n) => n.id === fromId) as SkillNode;
+        const cycle = this.getCycleForEdge(fromId, node.id);
+        if (cycle) {
+          console.warn(`Skipping prerequisite of ${path}, it would create a cycle: ${this.formatNodePath(cycle)}`);
+          continue;
         }
+        this.edges.push({
+          id: generateId(new Set(this.edges.map((ee) => ee.id))),
+          from: fromId,
+          to: node.id,
+          fromSide: this.getSideBetween(fromNode, node),
+          toSide: this.getSideBetween(node, fromNode),
+        });
+        changed = true;
+      }
+
+      if (!removeMissing) continue;
+      const kept = this.edges.filter((ee) => {
+        if (ee.to !== node.id || ee.from == null || listed.has(ee.from)) return true;
+        // Only prerequisites that could be listed (their note exists) are removed
+        const fromNode = this.nodes.find((n) => n.id === ee.from);
+        const fromPath = fromNode && !fromNode.brokenLink ? this.getNodeFilePath(fromNode) : null;
+        return !fromPath || !(this.app.vault.getAbstractFileByPath(fromPath) instanceof TFile);
       });
-      
-      // Wait for metadata cache to update, then trigger render
-      // This ensures the cache reflects the updated frontmatter before we check nodeFileHasCorrectId
-      // The metadata cache needs a moment to process the file change
-      setTimeout(() => {
-        this.render();
-      }, 150);
-    } catch (e) {
-      console.warn('Failed to update frontmatter with skilltree-node:', e);
+      if (kept.length !== this.edges.length) {
+        this.edges = kept;
+        changed = true;
+      }
     }
+    return changed;
   }
 
   // Check if a node's file has the correct ID in its frontmatter
@@ -401,239 +619,148 @@ export class SkillTreeView extends ItemView {
       const existingNodeId = frontmatter?.['skilltree-node'];
       
       // Return true if the file has the correct ID, false otherwise
-      return existingNodeId === node.id;
+      return idsEqual(existingNodeId, node.id);
     } catch (e) {
       // If we can't check, assume it's fine
       return true;
     }
   }
 
-  // Get the display label for a node (note title if associated, prompt if not)
-  getNodeDisplayLabel(node: SkillNode): string {
-    // Always return empty string - filename is displayed separately
-    return '';
+  // EXP earned and available for a node, based on its cached tasks
+  getNodeExpProgress(node: SkillNode): ExpProgress {
+    return getNodeExpProgress(node, this._tasksCache.get(node.id) || [], !!this.settings.expFromTasks);
   }
 
-  // Use Dataview to find notes with skilltree-node associations and link them to nodes
-  async associateNotesWithNodes(): Promise<void> {
-    if (!this.isDataviewPluginInstalled()) return;
+  // Done vs. total cached tasks of a node; cancelled tasks are not counted
+  getNodeTaskCompletion(nodeId: NodeId): TaskCompletion {
+    const required = (this._tasksCache.get(nodeId) || []).filter((task) => !task.cancelled);
+    return {
+      total: required.length,
+      completed: required.filter((task) => task.completed).length
+    };
+  }
 
-    try {
-      const dv = (this.app as any).plugins.plugins.dataview.api;
-      if (!dv) return;
+  // Style picked in the settings, built-in or custom
+  getStyleDef(): SkillTreeStyle | undefined {
+    return getSkillTreeStyle(this.settings, this.settings.style || 'gamified');
+  }
 
-      // Query for all pages that have a skilltree-node field
-      const pages = dv.pages().where((p: any) => p['skilltree-node'] !== undefined);
+  // Gamified effects (rigid bezier edges, unlock animations) also apply to styles cloned from it
+  isGamifiedStyle(): boolean {
+    return getBaseStyleKey(this.settings, this.settings.style || 'gamified') === 'gamified';
+  }
 
-      for (const page of pages) {
-        const fileNodeId = page['skilltree-node'];
-        const node = this.nodes.find((n) => n.id === fileNodeId);
+  // Get the display label for a node: the note's `skilltree-label`, its own title, else the linked note's title
+  getNodeDisplayLabel(node: SkillNode): string {
+    return this.getNodeStyle(node).label || node.title?.trim() || this.getNoteTitle(node);
+  }
 
-        if (node) {
-          // Associate the note with the node, preferring existing links but allowing updates
-          const notePath = page.file.path;
-          if (!node.fileLink || node.fileLink !== notePath) {
-            node.fileLink = notePath;
-            this._lastKnownNodeIds.set(notePath, node.id);
-            // Update frontmatter to ensure it matches the node's ID (node ID takes precedence)
-            await this.updateFileFrontmatterWithNodeId(notePath, node.id);
-          } else {
-            // Node already has this file linked - ensure frontmatter matches node ID
-            // This handles the case where file frontmatter has a different ID
-            await this.updateFileFrontmatterWithNodeId(notePath, node.id);
-          }
-        } else {
-          // File has a node ID that doesn't match any existing node
-          // Don't create a new node or change existing nodes - just leave it
-          // The user will need to manually link it or change the ID in the file
-        }
-      }
-    } catch (e) {
-      console.warn('Failed to associate notes with nodes using Dataview:', e);
+  // Color, icon, size and label overrides in the linked note's frontmatter, see readNodeStyle
+  getNodeStyle(node: SkillNode): NodeStyleOverrides {
+    const path = node.brokenLink ? null : this.getNodeFilePath(node);
+    if (!path) return {};
+    // Read on every frame; cached per note until its metadata changes, see registerVaultEvents
+    let style = this._nodeStyles.get(path);
+    if (!style) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+      // No such note, or not indexed yet; nothing to cache
+      if (!cache) return {};
+      style = readNodeStyle(cache.frontmatter);
+      this._nodeStyles.set(path, style);
     }
+    return style;
   }
 
-  // TODO switch to dataview sTask 
-  // Get tasks from a file using Tasks plugin or manual parsing
-  async getTasksFromFile(filePath: string): Promise<any[]> {
-    try {
-
-      // Normalize file path - remove leading slash if present, ensure .md extension
-      let normalizedPath = filePath.trim();
-      
-      if (normalizedPath.startsWith('/')) {
-        normalizedPath = normalizedPath.substring(1);
-      }
-
-      if (!normalizedPath.endsWith('.md')) {
-        normalizedPath = normalizedPath + '.md';
-      }
-      
-      // Try to get the file - also try without .md extension
-      let file = this.app.vault.getAbstractFileByPath(normalizedPath);
-      
-      if (!file && !filePath.endsWith('.md')) {
-        // Try the original path as-is
-        file = this.app.vault.getAbstractFileByPath(filePath.trim());
-        if (file) {
-          normalizedPath = filePath.trim();
-        }
-      }
-      
-      if (!file) {
-        return [];
-      }
-      
-      // Check if it's a TFile (text file)
-      if (!(file instanceof TFile)) {
-        return [];
-      }
-      
-      // Read file content
-      const content = await this.app.vault.read(file);
-      
-      // Try Tasks plugin API first if available, but we still need to parse hierarchy manually
-      let tasksFromAPI: any[] = [];
-      
-      if (this.isTasksPluginInstalled()) {
-        const tasksPlugin = this.getTasksPlugin();
-        if (tasksPlugin && tasksPlugin.api && typeof tasksPlugin.api.parseTasks === 'function') {
-          try {
-            const parsedTasks = tasksPlugin.api.parseTasks(content);
-            // Convert to our format if needed
-            if (parsedTasks && parsedTasks.length > 0) {
-              tasksFromAPI = parsedTasks.map((t: any, idx: number) => ({
-                id: idx,
-                text: t.description || t.text || '',
-                completed: t.status === 'x' || t.completed || false,
-                line: t.line || idx,
-                originalTask: t,
-                exp: 10 // Default exp for each task
-              }));
-            }
-          } catch (e) {
-            // Fallback to manual parsing
-          }
-        }
-        
-      }
-      
-      // If we got tasks from API, we still need to parse hierarchy from the file
-      // So we'll parse manually to get hierarchy, then merge with API data if available
-      
-      // Fallback: parse tasks manually using regex
-      // Tasks format: - [ ] task text or - [x] completed task
-      // Also handles: * [ ] and other list markers
-      // Supports nested tasks (children) based on indentation
-      const lines = content.split('\n');
-      const tasks: any[] = [];
-      let index = 0;
-      
-      // First pass: parse all tasks and determine hierarchy based on indentation
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        // Try multiple patterns to match different task formats
-        // Pattern 1: - [ ] or - [x] (with spaces)
-        // Pattern 2: -[ ] or -[x] (without space)
-        // Pattern 3: * [ ] or * [x]
-        // Pattern 4: *[ ] or *[x]
-        let taskMatch = line.match(/^(\s*)[-*]\s*\[([ xX])\]\s+(.+)$/);
-        if (!taskMatch) {
-          // Try without space between marker and bracket
-          taskMatch = line.match(/^(\s*)[-*]\[([ xX])\]\s+(.+)$/);
-        }
-        if (!taskMatch) {
-          // Try with tab or multiple spaces
-          taskMatch = line.match(/^(\s*)[-*]\s+\[([ xX])\]\s+(.+)$/);
-        }
-        
-        if (taskMatch) {
-          // Calculate indentation - count spaces and tabs (tabs = 2 spaces)
-          const indentStr = taskMatch[1];
-          let indent = 0;
-          for (let k = 0; k < indentStr.length; k++) {
-            if (indentStr[k] === '\t') {
-              indent += 2; // Treat tab as 2 spaces
-            } else if (indentStr[k] === ' ') {
-              indent += 1;
-            }
-          }
-          const isCompleted = taskMatch[2].toLowerCase() === 'x';
-          const taskText = taskMatch[3].trim();
-          tasks.push({
-            id: index++,
-            text: taskText,
-            completed: isCompleted,
-            line:  i,
-            originalLine: line,
-            indent: indent,
-            parentIndex: null as number | null,
-            children: [] as number[],
-            exp: 10 // Default exp for each task
-          });
-        }
-      }
-      
-      // Second pass: establish parent-child relationships based on indentation
-      for (let i = 0; i < tasks.length; i++) {
-        const currentTask = tasks[i];
-        // Look backwards to find the most recent task with less indentation
-        for (let j = i - 1; j >= 0; j--) {
-          const prevTask = tasks[j];
-          // Check if previous task has less indentation (is a parent)
-          // Also handle tabs - treat tab as 2 spaces for comparison
-          const prevIndent = prevTask.indent || 0;
-          const currentIndent = currentTask.indent || 0;
-          if (prevIndent < currentIndent) {
-            // Found parent
-            currentTask.parentIndex = j;
-            if (!prevTask.children) prevTask.children = [];
-            prevTask.children.push(i);
-            break;
-          }
-        }
-      }
-      
-      // If we have tasks from API, merge the originalTask data
-      if (tasksFromAPI.length > 0) {
-        // Match tasks by line number and merge originalTask
-        for (let i = 0; i < tasks.length; i++) {
-          const manualTask = tasks[i];
-          const apiTask = tasksFromAPI.find((t: any) => t.line === manualTask.line);
-          if (apiTask && apiTask.originalTask) {
-            manualTask.originalTask = apiTask.originalTask;
-            // Also update completion status from API if it differs
-            if (apiTask.completed !== undefined) {
-              manualTask.completed = apiTask.completed;
-            }
-          }
-        }
-      }
-      
-      // Ensure all tasks have exp (default 10)
-      for (const task of tasks) {
-        if (task.exp === undefined) {
-          task.exp = 10;
-        }
-      }
-      return tasks;
-    } catch (e) {
-      return [];
+  // Fill and outline for a `skilltree-color` override; unavailable nodes get it grayed out like the default style
+  getNodeColorOverride(color: string, state: string): { fill: string; stroke: string } | null {
+    if (!this.context || typeof CSS === 'undefined' || !CSS.supports('color', color)) return null;
+    // Let the canvas resolve names like "teal" to a color parseCSSColor understands
+    this.context.save();
+    this.context.fillStyle = color;
+    const parsed = parseCSSColor(String(this.context.fillStyle));
+    this.context.restore();
+    if (!parsed) return null;
+    let { r, g, b } = parsed;
+    if (state === 'unavailable') {
+      r = Math.round(r * 0.4 + 120 * 0.6);
+      g = Math.round(g * 0.4 + 120 * 0.6);
+      b = Math.round(b * 0.4 + 120 * 0.6);
     }
+    return {
+      fill: `rgb(${r},${g},${b})`,
+      stroke: `rgb(${Math.round(r * 0.7)},${Math.round(g * 0.7)},${Math.round(b * 0.7)})`,
+    };
   }
 
+  // Image of a Lucide icon for drawing on the canvas; null until it has loaded, then the tree is redrawn
+  getIconImage(name: string, color: string): HTMLImageElement | null {
+    const key = `${name}|${color}`;
+    let img = this._iconImages.get(key);
+    if (!img) {
+      const svg = getLucideIconSvg(name, color);
+      if (!svg) return null;
+      img = new Image();
+      img.onload = () => this.render();
+      img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+      this._iconImages.set(key, img);
+    }
+    return img.complete && img.naturalWidth > 0 ? img : null;
+  }
 
+  // Title of a node's linked note: frontmatter `title`, then the first alias, then the file name
+  getNoteTitle(node: SkillNode): string {
+    const path = this.getNodeFilePath(node);
+    const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+    if (!(file instanceof TFile)) return '';
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const title = frontmatter?.['title'];
+    if (typeof title === 'string' && title.trim()) return title.trim();
+    const aliases = frontmatter?.['aliases'] ?? frontmatter?.['alias'];
+    const alias = Array.isArray(aliases) ? aliases[0] : aliases;
+    if (typeof alias === 'string' && alias.trim()) return alias.trim();
+    return file.basename;
+  }
 
-
-
-
-  
+  // Text drawn inside a node: the label wrapped after 4 words (icon in front) and the file name line.
+  // A Lucide icon gets its own line above the label instead. The file name is left out when the label already shows it.
+  getNodeTextLines(n: SkillNode): { lines: string[]; fileName: string; iconName?: string } {
+    const style = this.getNodeStyle(n);
+    const label = style.label || n.title?.trim() || this.getNoteTitle(n) || '';
+    const words = label.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    for (let i = 0; i < words.length; i += 4) {
+      lines.push(words.slice(i, i + 4).join(' '));
+    }
+    if (lines.length === 0) lines.push('');
+    const icon = style.icon || n.icon;
+    const iconName = icon && isLucideIcon(icon) ? icon : undefined;
+    if (icon && !iconName) lines[0] = `${icon} ${lines[0]}`.trim();
+
+    let fileName = '';
+    if (n.fileLink) {
+      const pathParts = n.fileLink.split('/');
+      fileName = pathParts[pathParts.length - 1];
+      if (fileName.endsWith('.md')) fileName = fileName.slice(0, -3);
+      // Take first part before ---
+      fileName = fileName.split(' --- ')[0].trim();
+      if (n.brokenLink) fileName = `⚠ ${fileName} (deleted)`;
+      else if (fileName === label) fileName = '';
+    } else {
+      // No file link, show prompt
+      fileName = 'Right click to add note';
+    }
+    return { lines, fileName, iconName };
+  }
 
   // Cache for tasks per node
-  _tasksCache: Map<number, any[]> = new Map();
-  _fileWatchers: Map<number, any> = new Map(); // Store file watchers per node
-  _lastKnownNodeIds: Map<string, number> = new Map(); // Store last known node ID per file path
-  _taskPositions: Map<number, Array<{ taskIndex: number; x: number; y: number; radius: number }>> = new Map(); // Store task positions for click detection
+  _tasksCache: Map<NodeId, TaskItem[]> = new Map();
+  _nodeIdsByPath: Map<string, NodeId[]> = new Map(); // Linked note path -> nodes linking it, see indexNodeFiles()
+  _frontmatterConflicts: FrontmatterConflict[] = []; // Found by the last syncFrontmatter(), listed when validating
+  _frontmatterSync: Promise<FrontmatterSyncPlan> | null = null; // Running syncFrontmatter() pass
+  _taskPositions: Map<NodeId, Array<{ taskIndex: number; x: number; y: number; radius: number }>> = new Map(); // Store task positions for click detection
+  _iconImages: Map<string, HTMLImageElement> = new Map(); // Lucide icons drawn on nodes, by `name|color`, see getIconImage()
+  _nodeStyles: Map<string, NodeStyleOverrides> = new Map(); // Style overrides read from each linked note, by path, see getNodeStyle()
   
   getNodeHit(e: any) : SkillNode {
     const rect = this.canvas.getBoundingClientRect();
@@ -643,17 +770,141 @@ export class SkillTreeView extends ItemView {
     return this.getNodeAtWorld(w.x, w.y);
   }
 
+  // Vault path of a node's linked note (leading slash removed, `.md` added)
+  getNodeFilePath(node: SkillNode): string | null {
+    return node.fileLink ? getNoteLinkPath(node.fileLink) : null;
+  }
+
+  // Rebuild the index the vault event handlers use to find the nodes linked to a changed note
+  indexNodeFiles() {
+    this._nodeIdsByPath.clear();
+    for (const node of this.nodes) {
+      const path = this.getNodeFilePath(node);
+      if (path) this._nodeIdsByPath.set(path, [...(this._nodeIdsByPath.get(path) || []), node.id]);
+    }
+  }
+
+  // Nodes of the open tree linked to a note
+  getNodesForPath(path: string): SkillNode[] {
+    const ids = this._nodeIdsByPath.get(path) || [];
+    return this.nodes.filter((n) => ids.includes(n.id));
+  }
+
+  // Listen to note changes once for the whole view; handlers look up affected nodes in the index.
+  // Registered with registerEvent, so they are detached when the view closes
+  registerVaultEvents() {
+    // Task queries can match notes anywhere; reload the query nodes a changed note matches or matched
+    const queryNodeIds = new Set<NodeId>();
+    const reloadQueryTasks = debounce(async () => {
+      const ids = [...queryNodeIds];
+      queryNodeIds.clear();
+      for (const node of this.nodes) {
+        if (ids.includes(node.id)) await this.reloadNodeTasks(node);
+      }
+    }, 500, true);
+    // 'changed' fires once the metadata cache has parsed a modified note, so frontmatter is current
+    this.registerEvent(this.app.metadataCache.on('changed', async (file) => {
+      this._nodeStyles.delete(file.path);
+      for (const node of this.getNodesForPath(file.path)) {
+        await this.updateNodeFromFile(node, file);
+      }
+      for (const node of this.nodes) {
+        if (!node.taskQuery) continue;
+        const matched = (this._tasksCache.get(node.id) || []).some((t) => t.filePath && getNoteLinkPath(t.filePath) === file.path);
+        if (matched || taskQueryMayMatch(this.app, file, node.taskQuery)) queryNodeIds.add(node.id);
+      }
+      if (queryNodeIds.size > 0) reloadQueryTasks();
+    }));
+    // Other trees are updated by the plugin, see updateNoteLinksInTrees
+    this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+      if (file instanceof TFile && file.extension === 'md') await this.followNoteLinks(oldPath, file.path);
+    }));
+    this.registerEvent(this.app.vault.on('delete', async (file) => {
+      if (file instanceof TFile && file.extension === 'md') await this.followNoteLinks(file.path, null);
+    }));
+    // A deleted note may come back (restored or recreated)
+    this.registerEvent(this.app.vault.on('create', async (file) => {
+      if (!(file instanceof TFile) || !this.getNodesForPath(file.path).some((n) => n.brokenLink)) return;
+      await this.followNoteLinks(file.path, file.path);
+    }));
+  }
+
+  // Point nodes linked to a renamed note at its new path, or mark them broken if it was deleted
+  async followNoteLinks(oldPath: string, newPath: string | null) {
+    if (this.getNodesForPath(oldPath).length === 0) return;
+    this.forgetNoteOfNodes(oldPath);
+    const changed = retargetNoteLinks(this.nodes, oldPath, newPath);
+    if (newPath) {
+      for (const node of changed) await this.getNodeTasks(node);
+    }
+    try { await this.saveNodes(); } catch (e) {}
+    this.render();
+  }
+
+  // Drop what was read from a note that no longer exists at `path`
+  forgetNoteOfNodes(path: string) {
+    this._nodeStyles.delete(path);
+    for (const node of this.getNodesForPath(path)) {
+      this._tasksCache.delete(node.id);
+      this._taskPositions.delete(node.id);
+    }
+  }
+
+  // Sync a node with its linked note after the note changed
+  async updateNodeFromFile(node: SkillNode, file: TFile) {
+    const notePath = file.path;
+    // The change may come from a running sync pass; read the note once the pass has written all of it
+    while (this._frontmatterSync) {
+      try { await this._frontmatterSync; } catch (e) {}
+    }
+    // Prerequisites edited in the note become edges before the notes are synced with the tree
+    const edgesChanged = await this.syncPrerequisiteEdges([node], true);
+    // Put back tree data the edit removed; writes nothing when the note is in sync
+    await this.syncFrontmatter();
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    
+    // Reload tasks when file changes
+    this._tasksCache.set(node.id, await this.loadNodeTasks(node));
+    
+    // Reload node shape from file front matter
+    node.shape = await this.getNodeShapeFromFile(notePath);
+    
+    // Reload exp from file frontmatter (but don't change node ID)
+    const fileExp = frontmatter?.['skilltree-node-exp'];
+    node.exp = fileExp !== undefined && typeof fileExp === 'number' ? fileExp : 10;
+    
+    // Reload unlock rule from file frontmatter; removing it from the note restores the default
+    const fileUnlock = this.getUnlockRuleFromFrontmatter(frontmatter, node.unlock);
+    const unlockChanged = JSON.stringify(fileUnlock) !== JSON.stringify(node.unlock);
+    node.unlock = fileUnlock;
+    
+    // Update node state based on task completion
+    this.updateNodeStateFromTasks(node);
+    if (unlockChanged || edgesChanged) this.applyConnectionStateRules();
+    
+    // Save nodes to persist the updated exp and shape
+    try { await this.saveNodes(); } catch (e) {}
+    
+    this.render();
+  }
+
+  // Tasks of a node, read the same way as by the dashboard, see loadNodeTasks in node-tasks.ts
+  async loadNodeTasks(node: SkillNode): Promise<TaskItem[]> {
+    return loadNodeTasks(this.app, node, this.settings);
+  }
+
   // Get tasks for a node (with caching)
-  async getNodeTasks(node: SkillNode): Promise<any[]> {
-    if (!node.fileLink) return [];
+  async getNodeTasks(node: SkillNode): Promise<TaskItem[]> {
+    if (!node.fileLink && !node.taskQuery) return [];
     
     // Always reload tasks (don't use cache for now, to ensure fresh data)
-    const tasks = await this.getTasksFromFile(node.fileLink);
-    // Store file path in each task for updating
-    tasks.forEach((task: any) => {
-      task.filePath = node.fileLink;
-    });
-              this._tasksCache.set(node.id, tasks);
+    const tasks = await this.loadNodeTasks(node);
+    this._tasksCache.set(node.id, tasks);
+    if (!node.fileLink) {
+      // Query-only node, reloaded by the handlers in registerVaultEvents
+      this.updateNodeStateFromTasks(node);
+      return tasks;
+    }
     
     // Load node shape from file front matter
     node.shape = await this.getNodeShapeFromFile(node.fileLink);
@@ -661,119 +912,10 @@ export class SkillTreeView extends ItemView {
     // Update node state based on task completion
     this.updateNodeStateFromTasks(node);
     
-    // Set up file watcher if not already set
-    if (!this._fileWatchers.has(node.id)) {
-      try {
-        // Normalize path for watcher
-        let watchPath = node.fileLink.trim();
-        if (!watchPath.endsWith('.md')) {
-          watchPath = watchPath + '.md';
-        }
-        
-        const file = this.app.vault.getAbstractFileByPath(watchPath);
-        if (file && file instanceof TFile) {
-          // Store initial node ID for this file
-          this._lastKnownNodeIds.set(watchPath, node.id);
-          
-          // Track last update time to debounce rapid updates
-          let lastUpdateTime = 0;
-          const UPDATE_DEBOUNCE_MS = 150;
-          
-          // Function to update node from file metadata
-          const updateNodeFromFile = async (changedFile: TFile, fromMetadataCache: boolean = false) => {
-            // Debounce rapid updates
-            const now = Date.now();
-            if (now - lastUpdateTime < UPDATE_DEBOUNCE_MS) {
-              return;
-            }
-            lastUpdateTime = now;
-            
-            // If this is from file modify event (not metadata cache), wait for cache to update
-            if (!fromMetadataCache) {
-              await new Promise(resolve => setTimeout(resolve, 100));
-            }
-            
-            // Check for frontmatter changes
-            const frontmatter = this.app.metadataCache.getFileCache(changedFile)?.frontmatter;
-            const currentNodeId = frontmatter?.['skilltree-node'];
-            
-            // Node ID takes precedence - if file has different ID, update the file (not the node)
-            // Check if we need to update the file's frontmatter to match the node's ID
-            const lastKnownId = this._lastKnownNodeIds.get(watchPath);
-            
-            // Only update if the file's ID doesn't match the node's ID AND we haven't just set it
-            // This prevents infinite loops when we update the file
-            if (currentNodeId !== node.id && lastKnownId !== node.id) {
-              // File has a different ID than the node - update the file to match the node
-              await this.updateFileFrontmatterWithNodeId(node.fileLink, node.id);
-              // Update the stored ID to match the node (so we don't update again immediately)
-              this._lastKnownNodeIds.set(watchPath, node.id);
-            } else if (currentNodeId === undefined && lastKnownId !== node.id) {
-              // File doesn't have the ID - add it
-              await this.updateFileFrontmatterWithNodeId(node.fileLink, node.id);
-              this._lastKnownNodeIds.set(watchPath, node.id);
-            } else if (lastKnownId !== node.id) {
-              // Update stored ID to current node ID (in case node ID changed)
-              this._lastKnownNodeIds.set(watchPath, node.id);
-            }
-            
-            // Reload tasks when file changes
-            const newTasks = await this.getTasksFromFile(node.fileLink);
-            newTasks.forEach((task: any) => {
-              task.filePath = node.fileLink;
-            });
-            this._tasksCache.set(node.id, newTasks);
-            
-            // Reload node shape from file front matter
-            node.shape = await this.getNodeShapeFromFile(node.fileLink);
-            
-            // Reload exp from file frontmatter (but don't change node ID)
-            try {
-              const fileExp = frontmatter?.['skilltree-node-exp'];
-              if (fileExp !== undefined && typeof fileExp === 'number') {
-                node.exp = fileExp;
-              } else {
-                // File doesn't have exp, default to 10
-                node.exp = 10;
-              }
-            } catch (e) {
-              // Error reading exp, default to 10
-              node.exp = 10;
-            }
-            
-            // Update node state based on task completion
-            this.updateNodeStateFromTasks(node);
-            
-            // Save nodes to persist the updated exp and shape
-            try { await this.saveNodes(); } catch (e) {}
-            
-            this.render();
-          };
-          
-          // Watch for file changes
-          const fileWatcher = this.app.vault.on('modify', async (changedFile) => {
-            if (changedFile instanceof TFile && (changedFile.path === watchPath || changedFile.path === node.fileLink)) {
-              await updateNodeFromFile(changedFile, false);
-            }
-          });
-          
-          // Also watch for metadata cache changes (more reliable for frontmatter updates)
-          const metadataWatcher = this.app.metadataCache.on('changed', async (changedFile) => {
-            if (changedFile instanceof TFile && (changedFile.path === watchPath || changedFile.path === node.fileLink)) {
-              await updateNodeFromFile(changedFile, true);
-            }
-          });
-          
-          // Store cleanup function for both watchers
-          const cleanupWatchers = () => {
-            this.app.vault.offref(fileWatcher);
-            this.app.metadataCache.offref(metadataWatcher);
-          };
-          this._fileWatchers.set(node.id, cleanupWatchers as any);
-        }
-      } catch (e) {
-        // Error setting up file watcher
-      }
+    const notePath = this.getNodeFilePath(node);
+    if (node.brokenLink && notePath && this.app.vault.getAbstractFileByPath(notePath) instanceof TFile) {
+      // The note is back (restored while this tree was closed)
+      delete node.brokenLink;
     }
     
     return tasks;
@@ -781,14 +923,16 @@ export class SkillTreeView extends ItemView {
   
   // Check if all tasks for a node are complete and update node state accordingly
   updateNodeStateFromTasks(node: SkillNode) {
-    const tasks = this._tasksCache.get(node.id) || [];
+    // Cancelled tasks are not required
+    const tasks = (this._tasksCache.get(node.id) || []).filter((task) => !task.cancelled);
     if (tasks.length === 0) {
       // No tasks - node state is managed by connection rules
       return;
     }
+    this._historyCause = { nodeId: node.id, source: 'task' };
     
     // Check if all tasks are complete
-    const allTasksComplete = tasks.length > 0 && tasks.every((task: any) => task.completed);
+    const allTasksComplete = tasks.length > 0 && tasks.every((task) => task.completed);
     
     if (allTasksComplete) {
       // All tasks are complete - set node to complete (even if orphaned)
@@ -798,112 +942,65 @@ export class SkillTreeView extends ItemView {
         this.applyConnectionStateRules();
         this.saveNodes().catch(() => {});
         this.render(); // Update exp display
+        return;
       }
     }
     // If not all tasks are complete, let connection rules handle the state
+    if (this.settings.inProgressThreshold > 0) {
+      // Task progress can cross the in-progress threshold either way
+      const { transitions } = this.applyConnectionStateRules();
+      if (transitions.length > 0) {
+        this.saveNodes().catch(() => {});
+        return;
+      }
+    }
+    // Still log partial EXP gained or lost by the toggled tasks
+    if (this.syncHistory()) this.saveNodes().catch(() => {});
   }
   
   // Complete all tasks in a note
   async completeAllTasksInNote(node: SkillNode) {
-    if (!node.fileLink) return;
-    
     const tasks = this._tasksCache.get(node.id) || [];
     if (tasks.length === 0) return;
     
     try {
-      // Normalize path
-      let filePath = node.fileLink.trim();
-      if (!filePath.endsWith('.md')) {
-        filePath = filePath + '.md';
-      }
-      
-      const file = this.app.vault.getAbstractFileByPath(filePath);
-      if (!file || !(file instanceof TFile)) return;
-      
-      // Try to use Tasks plugin API if available
-      if (this.isTasksPluginInstalled()) {
-        const tasksPlugin = this.getTasksPlugin();
-        if (tasksPlugin && tasksPlugin.api) {
-          // Complete all tasks using Tasks API
-          for (const task of tasks) {
-            if (task.completed) continue; // Skip already completed tasks
-            
-            if (task.originalTask) {
-              try {
-                // Try toggleTask if available
-                if (typeof tasksPlugin.api.toggleTask === 'function') {
-                  await tasksPlugin.api.toggleTask(task.originalTask);
-                  continue;
-                }
-                // Try updating status
-                if (task.originalTask.status !== undefined && task.originalTask.status !== 'x') {
-                  task.originalTask.status = 'x';
-                  if (typeof tasksPlugin.api.updateTask === 'function') {
-                    await tasksPlugin.api.updateTask(task.originalTask);
-                    continue;
-                  } else if (typeof tasksPlugin.api.replaceTaskWithTasks === 'function') {
-                    await tasksPlugin.api.replaceTaskWithTasks(task.originalTask, [task.originalTask]);
-                    continue;
-                  }
-                }
-              } catch (e) {
-                // Fallback to manual toggle
-              }
-            }
-          }
-        }
-      }
-      
-      // Fallback: manual toggle for all tasks
-      const content = await this.app.vault.read(file);
-      const lines = content.split('\n');
-      let modified = false;
-      
+      // Group open tasks by the note they live in (query tasks can come from many notes).
+      // Open means open in the note: parents done only through their subtasks still need checking
+      const openLinesByPath = new Map<string, number[]>();
       for (const task of tasks) {
-        if (task.completed || task.line === undefined || task.line < 0 || task.line >= lines.length) continue;
-        
-        const line = lines[task.line];
-        // Toggle the checkbox: [ ] -> [x]
-        const newLine = line.replace(/\[([ x])\]/i, (match, status) => {
-          return status.toLowerCase() === 'x' ? '[x]' : '[x]';
-        });
-        
-        if (newLine !== line) {
-          lines[task.line] = newLine;
-          modified = true;
-        }
+        if (task.line === undefined || !task.filePath) continue;
+        const noteStatus = getTaskStatusType(task.status, this.settings.taskStatuses);
+        if (noteStatus === 'done' || noteStatus === 'cancelled') continue;
+        const filePath = getNoteLinkPath(task.filePath);
+        openLinesByPath.set(filePath, [...(openLinesByPath.get(filePath) || []), task.line]);
       }
-      
-      if (modified) {
-        await this.app.vault.modify(file, lines.join('\n'));
+      for (const [filePath, openLines] of openLinesByPath) {
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (file instanceof TFile) await this.toggleTaskLines(file, openLines);
       }
       
       // Reload tasks after modification
-      const newTasks = await this.getTasksFromFile(node.fileLink);
-      newTasks.forEach((t: any) => {
-        t.filePath = node.fileLink;
-      });
-      this._tasksCache.set(node.id, newTasks);
-      this.updateNodeStateFromTasks(node);
-      this.render();
+      await this.reloadNodeTasks(node);
     } catch (e) {
       console.error('Failed to complete all tasks:', e);
     }
   }
   
-  // Toggle task completion in file using Tasks API if available
+  // Toggle task completion in file using the Tasks API if available.
+  // Writes to the note the task was read from, which for task query matches is not the node's note
   async toggleTaskCompletion(node: SkillNode, taskIndex: number) {
-    if (!node.fileLink) return;
-    
     const tasks = this._tasksCache.get(node.id) || [];
     if (taskIndex < 0 || taskIndex >= tasks.length) return;
     
     const task = tasks[taskIndex];
     if (!task.filePath || task.line === undefined) return;
+    // Open in the note and done through its subtasks; toggling the line would check it instead of unchecking
+    if (task.completedByChildren) return;
     
     try {
       // Normalize path
       let filePath = task.filePath.trim();
+      if (filePath.startsWith('/')) filePath = filePath.substring(1);
       if (!filePath.endsWith('.md')) {
         filePath = filePath + '.md';
       }
@@ -911,86 +1008,178 @@ export class SkillTreeView extends ItemView {
       const file = this.app.vault.getAbstractFileByPath(filePath);
       if (!file || !(file instanceof TFile)) return;
       
-      // Try to use Tasks plugin API if available
-      if (this.isTasksPluginInstalled()) {
-        const tasksPlugin = this.getTasksPlugin();
-        if (tasksPlugin && tasksPlugin.api) {
-          // Method 1: Try toggleTask if available
-          if (task.originalTask && typeof tasksPlugin.api.toggleTask === 'function') {
-            try {
-              await tasksPlugin.api.toggleTask(task.originalTask);
-              // Reload tasks after modification
-              const newTasks = await this.getTasksFromFile(node.fileLink);
-              newTasks.forEach((t: any) => {
-                t.filePath = node.fileLink;
-              });
-              this._tasksCache.set(node.id, newTasks);
-              this.updateNodeStateFromTasks(node);
-              this.render();
-              return;
-            } catch (e) {
-              // Fallback to next method
-            }
-          }
-          // Method 2: Try to toggle via task status property
-          if (task.originalTask && task.originalTask.status !== undefined) {
-            try {
-              const newStatus = task.originalTask.status === 'x' ? ' ' : 'x';
-              task.originalTask.status = newStatus;
-              // Try updateTask if available
-              if (typeof tasksPlugin.api.updateTask === 'function') {
-                await tasksPlugin.api.updateTask(task.originalTask);
-              } else if (typeof tasksPlugin.api.replaceTaskWithTasks === 'function') {
-                // Some APIs use replaceTaskWithTasks
-                await tasksPlugin.api.replaceTaskWithTasks(task.originalTask, [task.originalTask]);
-              }
-              // Reload tasks after modification
-              const newTasks = await this.getTasksFromFile(node.fileLink);
-              newTasks.forEach((t: any) => {
-                t.filePath = node.fileLink;
-              });
-              this._tasksCache.set(node.id, newTasks);
-              this.updateNodeStateFromTasks(node);
-              this.render();
-              return;
-            } catch (e) {
-              // Fallback to manual toggle
-            }
-          }
-        }
-      }
+      await this.toggleTaskLines(file, [task.line]);
       
-      // Fallback: manual toggle
-      const content = await this.app.vault.read(file);
+      // Reload tasks after modification and update node state based on task completion
+      await this.reloadNodeTasks(node);
+    } catch (e) {
+      console.error('Failed to toggle task:', e);
+    }
+  }
+
+  /**
+   * Toggle the task lines at `lineIndexes` in `file`.
+   * Uses the Tasks plugin's `executeToggleTaskDoneCommand` when the plugin is installed,
+   * so done dates, recurrence and custom statuses are applied; otherwise flips the checkbox.
+   */
+  async toggleTaskLines(file: TFile, lineIndexes: number[]) {
+    if (lineIndexes.length === 0) return;
+    const tasksApi = createGetTasksApi(this.app)();
+    await this.app.vault.process(file, (content) => {
       const lines = content.split('\n');
-      
-      if (task.line >= 0 && task.line < lines.length) {
-        const line = lines[task.line];
-        // Toggle the checkbox: [ ] -> [x] or [x] -> [ ]
-        const newLine = line.replace(/\[([ x])\]/i, (match, status) => {
-          return status.toLowerCase() === 'x' ? '[ ]' : '[x]';
-        });
-        
-        if (newLine !== line) {
-          lines[task.line] = newLine;
-          await this.app.vault.modify(file, lines.join('\n'));
-          
-          // Reload tasks after modification
-          const newTasks = await this.getTasksFromFile(node.fileLink);
-          newTasks.forEach((t: any) => {
-            t.filePath = node.fileLink;
-          });
-          this._tasksCache.set(node.id, newTasks);
-          // Update node state based on task completion
-          this.updateNodeStateFromTasks(node);
-          this.render();
-        }
-      }
+      // Bottom-up, so recurring tasks that insert a line don't shift the lines still to toggle
+      const sorted = [...new Set(lineIndexes)].sort((a, b) => b - a);
+      for (const index of sorted) {
+        if (index < 0 || index >= lines.length) continue;
+        const line = lines[index];
+        const toggled = tasksApi
+          ? tasksApi.executeToggleTaskDoneCommand(line, file.path)
+          : toggleCheckboxLine(line, this.settings.taskStatuses);
+        lines.splice(index, 1, ...toggled.split('\n'));
+      }
+      return lines.join('\n');
+    });
+  }
+
+  // Re-read a node's tasks from its note and update its state
+  async reloadNodeTasks(node: SkillNode) {
+    if (!node.fileLink && !node.taskQuery) return;
+    this._tasksCache.set(node.id, await this.loadNodeTasks(node));
+    this.updateNodeStateFromTasks(node);
+    this.render();
+  }
+
+  // Task text for labels: metadata and EXP stripped, priority shown as its emoji
+  getTaskDisplayText(task: TaskItem): string {
+    const text = stripTaskExp(stripTaskMetadata(task.text || ''));
+    const icon = PRIORITY_ICONS[task.priority as TaskPriority];
+    return icon ? `${icon} ${text}` : text;
+  }
+
+  // Due/scheduled dates and recurrence of a task, e.g. "📅 2024-05-01 · 🔁 every week"
+  getTaskDetailsText(task: TaskItem): string {
+    const parts: string[] = [];
+    if (task.due) parts.push(`📅 ${task.due}`);
+    if (task.scheduled) parts.push(`⏳ ${task.scheduled}`);
+    if (task.start) parts.push(`🛫 ${task.start}`);
+    if (task.recurrence) parts.push(`🔁 ${task.recurrence}`);
+    return parts.join(' · ');
+  }
+
+  // Add a task to a node's note, through the Tasks entry modal when Tasks is installed
+  async addTaskToNode(node: SkillNode) {
+    if (!node.fileLink) {
+      await this.openErrorModal('Link a note to this node before adding tasks.');
+      return;
+    }
+    let filePath = node.fileLink.trim();
+    if (filePath.startsWith('/')) filePath = filePath.substring(1);
+    if (!filePath.endsWith('.md')) filePath = filePath + '.md';
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (!file || !(file instanceof TFile)) {
+      if (node.brokenLink) this.openRelinkModal(node);
+      else this.showCreateFileModal(node);
+      return;
+    }
+
+    const tasksApi = createGetTasksApi(this.app)();
+    if (!tasksApi) {
+      this.openAddTaskModal(node, file);
+      return;
+    }
+    // The Tasks modal is an Obsidian modal; close ours so the outside-click handler doesn't interfere
+    this.closeAllModals();
+    const taskLine = await tasksApi.createTaskLineModal();
+    if (!taskLine.trim()) return; // cancelled
+    await this.appendTaskLine(node, file, taskLine);
+  }
+
+  // Append a markdown task line under the task heading of a node's note and reload its tasks
+  async appendTaskLine(node: SkillNode, file: TFile, taskLine: string) {
+    let line = taskLine.replace(/\n+$/, '');
+    if (!/^\s*[-*+]\s*\[.\]/.test(line)) line = `- [ ] ${line.trim()}`;
+    try {
+      await this.app.vault.process(file, (content) => {
+        return insertTaskUnderHeading(content, line, this.settings.taskHeading ?? '');
+      });
+      await this.reloadNodeTasks(node);
     } catch (e) {
-      // Error toggling task completion
+      console.error('Failed to add task:', e);
     }
   }
 
+  // Built-in task entry form, used when the Tasks plugin is not installed
+  openAddTaskModal(node: SkillNode, file: TFile) {
+    if (!this.containerEl) return;
+    this.closeAllModals();
+    const modal = this.containerEl.createDiv({ cls: 'skill-tree-node-modal' });
+    this.openModal(modal);
+    this.installOutsideClickHandler(modal);
+
+    const h3 = modal.createEl('h3', { text: `Add Task to ${this.getNodeDisplayLabel(node) || 'Node'}` });
+    h3.style.marginTop = '0';
+    h3.style.marginBottom = '16px';
+
+    const textRow = modal.createDiv({ cls: 'st-row' });
+    textRow.style.marginBottom = '12px';
+    textRow.style.display = 'flex';
+    textRow.style.flexDirection = 'column';
+    textRow.style.gap = '4px';
+    textRow.createEl('label', { text: 'Task:' }).style.fontWeight = '500';
+    const textInput = textRow.createEl('input') as HTMLInputElement;
+    textInput.type = 'text';
+    textInput.placeholder = 'Describe the task...';
+    textInput.style.width = '100%';
+    textInput.style.padding = '6px';
+
+    const expRow = modal.createDiv({ cls: 'st-row' });
+    expRow.style.marginBottom = '12px';
+    expRow.style.display = 'flex';
+    expRow.style.flexDirection = 'column';
+    expRow.style.gap = '4px';
+    expRow.createEl('label', { text: 'EXP (optional):' }).style.fontWeight = '500';
+    const expInput = expRow.createEl('input') as HTMLInputElement;
+    expInput.type = 'number';
+    expInput.min = '0';
+    expInput.placeholder = String(DEFAULT_TASK_EXP);
+    expInput.style.width = '100%';
+    expInput.style.padding = '6px';
+
+    const actions = modal.createDiv({ cls: 'st-actions' });
+    actions.style.display = 'flex';
+    actions.style.gap = '8px';
+    actions.style.justifyContent = 'flex-end';
+    actions.style.marginTop = '16px';
+
+    const cancelBtn = actions.createEl('button', { text: 'Cancel' });
+    cancelBtn.style.padding = '6px 12px';
+    cancelBtn.onclick = () => {
+      modal.remove();
+      this.removeOutsideClickHandler();
+    };
+
+    const addBtn = actions.createEl('button', { text: 'Add' });
+    addBtn.style.padding = '6px 12px';
+    addBtn.onclick = async () => {
+      const text = textInput.value.trim();
+      if (!text) return;
+      const exp = parseFloat(expInput.value);
+      const expField = !isNaN(exp) && exp >= 0 ? ` [exp:: ${exp}]` : '';
+      modal.remove();
+      this.removeOutsideClickHandler();
+      await this.appendTaskLine(node, file, `- [ ] ${text}${expField}`);
+    };
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') addBtn.click();
+      else if (e.key === 'Escape') cancelBtn.click();
+    };
+    textInput.addEventListener('keydown', onKey);
+    expInput.addEventListener('keydown', onKey);
+
+    setTimeout(() => textInput.focus(), 10);
+  }
+
   async onOpen(): Promise<void> {
     this.containerEl.empty();
     const toolbar = this.containerEl.createEl('div', { cls: 'skill-tree-toolbar' });
@@ -1054,12 +1243,32 @@ export class SkillTreeView extends ItemView {
     const treeSelect = toolbar.createEl('select') as HTMLSelectElement;
     treeSelect.style.marginLeft = '4px';
     treeSelect.style.padding = '4px';
+    this.treeSelectEl = treeSelect;
     this.updateTreeSelector(treeSelect);
     treeSelect.onchange = async () => {
       await this.switchTree(treeSelect.value);
-      this.updateTreeSelector(treeSelect);
-      this.render();
     };
+
+    // Keep the tree selector in sync with tree files created, renamed or deleted in the vault
+    const refreshTreeSelector = (file: unknown) => {
+      if (isTreeFile(file)) {
+        this.updateTreeSelector(treeSelect);
+        this.refreshOtherTreesExp();
+      }
+    };
+    this.registerEvent(this.app.vault.on('create', refreshTreeSelector));
+    this.registerEvent(this.app.vault.on('delete', refreshTreeSelector));
+    this.registerEvent(this.app.vault.on('rename', refreshTreeSelector));
+    // Other trees changing, or the notes they read tasks from, affects the global level
+    const refreshOtherTrees = debounce(() => { this.refreshOtherTreesExp(); }, 1000, true);
+    this.registerEvent(this.app.vault.on('modify', (file) => {
+      if (isTreeFile(file) && file !== this.file) refreshOtherTrees();
+    }));
+    this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+      if (this._otherTreesPaths.has(file.path)) refreshOtherTrees();
+    }));
+    // Linked notes and task queries
+    this.registerVaultEvents();
     
     const newTreeBtn = toolbar.createEl('button', { text: 'New Tree' });
     newTreeBtn.onclick = async () => {
@@ -1068,18 +1277,15 @@ export class SkillTreeView extends ItemView {
     
     const deleteTreeBtn = toolbar.createEl('button', { text: 'Delete Tree' });
     deleteTreeBtn.onclick = async () => {
-      if (Object.keys(this.settings.trees).length <= 1) {
+      if (getTreeFiles(this.app).length <= 1) {
         this.openErrorModal('Cannot delete the last tree. Create a new tree first.');
         return;
       }
+      if (!this.file) return;
       
-      const treeNameToDelete = this.settings.currentTreeName;
-      this.openDeleteConfirmationModal(treeNameToDelete, async () => {
-        await this.deleteTree(treeNameToDelete);
-        this.updateTreeSelector(treeSelect);
-        // render() is already called by deleteTree() if tree was switched
-        // but we need to ensure it's called if it wasn't
-        this.render();
+      const treePathToDelete = this.file.path;
+      this.openDeleteConfirmationModal(this.file.basename, async () => {
+        await this.deleteTree(treePathToDelete);
       });
     };
     
@@ -1095,8 +1301,6 @@ export class SkillTreeView extends ItemView {
           try {
             const data = JSON.parse(text);
             await this.importTree(data);
-            this.updateTreeSelector(treeSelect);
-            this.render();
             alert('Tree imported successfully!');
           } catch (err) {
             alert('Failed to import tree: Invalid JSON');
@@ -1113,11 +1317,16 @@ export class SkillTreeView extends ItemView {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${this.settings.currentTreeName || 'skill-tree'}.json`;
+      a.download = `${this.file?.basename || 'skill-tree'}.json`;
       a.click();
       URL.revokeObjectURL(url);
     };
     
+    const historyBtn = toolbar.createEl('button', { text: 'History' });
+    historyBtn.onclick = () => {
+      this.openHistoryModal();
+    };
+    
     const recenterBtn = toolbar.createEl('button', { text: 'Recenter' });
     recenterBtn.onclick = () => {
       this.recenterView();
@@ -1336,7 +1545,7 @@ export class SkillTreeView extends ItemView {
       }
       
       // Check for child task node click
-      const tasks = this._tasksCache.get(this.selectedTask?.nodeId || -1) || [];
+      const tasks = this._tasksCache.get(this.selectedTask?.nodeId || '') || [];
       let clickedChildTask = false;
       if (this.selectedTask) {
         const parentTask = tasks[this.selectedTask.taskIndex];
@@ -1388,6 +1597,7 @@ export class SkillTreeView extends ItemView {
       if (checkboxHit) {
         this.recordSnapshot();
         checkboxHit.node.state = 'complete';
+        this._historyCause = { nodeId: checkboxHit.node.id, source: 'manual' };
         this.applyConnectionStateRules(); // Update parent states when child becomes complete
         await this.saveNodes();
         this.render();
@@ -1448,7 +1658,7 @@ export class SkillTreeView extends ItemView {
         if (edge) {
           const targetHandle = this.findHandleNear(w.x, w.y, 18);
           // Helper to check if a node became orphaned and set it to unavailable
-          const checkOrphanedNode = (nodeId: number | null) => {
+          const checkOrphanedNode = (nodeId: NodeId | null) => {
             if (nodeId == null) return;
             const remainingParents = this.edges.filter((ee) => ee.to === nodeId).length;
             const remainingChildren = this.edges.filter((ee) => ee.from === nodeId).length;
@@ -1464,13 +1674,16 @@ export class SkillTreeView extends ItemView {
               const otherNodeId = de.which === 'from' ? edge.to : edge.from;
               // Save the original node ID before changing the edge
               const originalNodeId = de.which === 'from' ? edge.from : edge.to;
-              // prevent self-loops and duplicate edges
-              if (targetHandle.node.id !== otherNodeId && !this.edges.some((ee) => ee.id !== edge.id && ee.from === (de.which === 'from' ? targetHandle.node.id : otherNodeId) && ee.to === (de.which === 'from' ? otherNodeId : targetHandle.node.id))) {
+              // prevent self-loops, duplicate edges and dependency cycles
+              const cycle = targetHandle.node.id !== otherNodeId && this.getCycleForEdge(de.which === 'from' ? targetHandle.node.id : otherNodeId, de.which === 'from' ? otherNodeId : targetHandle.node.id, edge.id);
+              if (cycle) {
+                this.openCycleErrorModal(cycle);
+              } else if (targetHandle.node.id !== otherNodeId && !this.edges.some((ee) => ee.id !== edge.id && ee.from === (de.which === 'from' ? targetHandle.node.id : otherNodeId) && ee.to === (de.which === 'from' ? otherNodeId : targetHandle.node.id))) {
                 this.recordSnapshot();
                 if (de.which === 'from') { edge.from = targetHandle.node.id; edge.fromSide = targetHandle.side; }
                 else { edge.to = targetHandle.node.id; edge.toSide = targetHandle.side; }
                 // Check if the original node is now orphaned
-                checkOrphanedNode(originalNodeId as number);
+                checkOrphanedNode(originalNodeId as NodeId);
                 edgesChanged = true;
                 this.applyConnectionStateRules();
                 await this.saveNodes();
@@ -1481,8 +1694,11 @@ export class SkillTreeView extends ItemView {
                 const otherNodeId = de.which === 'from' ? edge.to : edge.from;
                 // Save the original node ID before changing the edge
                 const originalNodeId = de.which === 'from' ? edge.from : edge.to;
-                // prevent self-loops and duplicate edges
-                if (nodeTarget.id !== otherNodeId && !this.edges.some((ee) => ee.id !== edge.id && ee.from === (de.which === 'from' ? nodeTarget.id : otherNodeId) && ee.to === (de.which === 'from' ? otherNodeId : nodeTarget.id))) {
+                // prevent self-loops, duplicate edges and dependency cycles
+                const cycle = nodeTarget.id !== otherNodeId && this.getCycleForEdge(de.which === 'from' ? nodeTarget.id : otherNodeId, de.which === 'from' ? otherNodeId : nodeTarget.id, edge.id);
+                if (cycle) {
+                  this.openCycleErrorModal(cycle);
+                } else if (nodeTarget.id !== otherNodeId && !this.edges.some((ee) => ee.id !== edge.id && ee.from === (de.which === 'from' ? nodeTarget.id : otherNodeId) && ee.to === (de.which === 'from' ? otherNodeId : nodeTarget.id))) {
                   this.recordSnapshot();
                   const otherNode = de.which === 'from' ? this.nodes.find((n)=>n.id===edge.to) : this.nodes.find((n)=>n.id===edge.from);
                   if (de.which === 'from') {
@@ -1495,7 +1711,7 @@ export class SkillTreeView extends ItemView {
                     else delete edge.toSide;
                   }
                   // Check if the original node is now orphaned
-                  checkOrphanedNode(originalNodeId as number);
+                  checkOrphanedNode(originalNodeId as NodeId);
                   edgesChanged = true;
                   this.applyConnectionStateRules();
                   await this.saveNodes();
@@ -1504,23 +1720,17 @@ export class SkillTreeView extends ItemView {
               // dropped on empty -> delete edge
                 this.recordSnapshot();
                 // determine nodes that will become orphaned after deletion
-                const fromId = edge.from as number | null;
-                const toId = edge.to as number | null;
+                const fromId = edge.from as NodeId | null;
+                const toId = edge.to as NodeId | null;
                 // remove the edge
                 this.edges = this.edges.filter((ee) => ee.id !== edge.id);
                 edgesChanged = true;
-                
-                // Update frontmatter for affected nodes
-                const fromNode = this.nodes.find(n => n.id === fromId);
-                const toNode = this.nodes.find(n => n.id === toId);
-                if (fromNode?.fileLink) await this.updateFileFrontmatterWithNodeId(fromNode.fileLink, fromNode.id);
-                if (toNode?.fileLink) await this.updateFileFrontmatterWithNodeId(toNode.fileLink, toNode.id);
                 try {
                   // Check both nodes: if orphaned (no parents AND no children), set to unavailable
                   // If a node has children, don't change its state
                   // IMPORTANT: Set state directly here to ensure orphaned nodes become unavailable
                   // even if they were previously 'complete'
-                  const checkNode = (nodeId: number | null) => {
+                  const checkNode = (nodeId: NodeId | null) => {
                     if (nodeId == null) return;
                     const remainingParents = this.edges.filter((ee) => ee.to === nodeId).length;
                     const remainingChildren = this.edges.filter((ee) => ee.from === nodeId).length;
@@ -1547,11 +1757,14 @@ export class SkillTreeView extends ItemView {
         const targetHandle = this.findHandleNear(this.tempEdgeTarget.x, this.tempEdgeTarget.y, 18);
         const targetNode = this.getNodeAtWorld(this.tempEdgeTarget.x, this.tempEdgeTarget.y);
         if (targetNode && targetNode.id !== this.creatingEdgeFrom.id) {
-          // check for duplicate edge
+          // check for duplicate edge and dependency cycles
           const duplicate = this.edges.some((ee) => ee.from === this.creatingEdgeFrom!.id && ee.to === targetNode.id);
-          if (!duplicate) {
+          const cycle = duplicate ? null : this.getCycleForEdge(this.creatingEdgeFrom.id, targetNode.id);
+          if (cycle) {
+            this.openCycleErrorModal(cycle);
+          } else if (!duplicate) {
             this.recordSnapshot();
-            const newEdge: SkillEdge = { id: Date.now() + Math.random(), from: this.creatingEdgeFrom.id, to: targetNode.id };
+            const newEdge: SkillEdge = { id: generateId(new Set(this.edges.map((ee) => ee.id))), from: this.creatingEdgeFrom.id, to: targetNode.id };
             // prefer explicit starting side, otherwise compute side from geometry
             if (this.creatingEdgeFromSide) newEdge.fromSide = this.creatingEdgeFromSide;
             else newEdge.fromSide = this.getSideBetween(this.creatingEdgeFrom, targetNode);
@@ -1560,20 +1773,14 @@ export class SkillTreeView extends ItemView {
             else newEdge.toSide = this.getSideBetween(targetNode, this.creatingEdgeFrom);
             this.edges.push(newEdge);
             edgesChanged = true;
-            
-            // Update frontmatter for affected nodes
-            const fromNode = this.nodes.find(n => n.id === newEdge.from);
-            const toNode = this.nodes.find(n => n.id === newEdge.to);
-            if (fromNode?.fileLink) await this.updateFileFrontmatterWithNodeId(fromNode.fileLink, fromNode.id);
-            if (toNode?.fileLink) await this.updateFileFrontmatterWithNodeId(toNode.fileLink, toNode.id);
           }
         }
       }
       // Check for task checkbox clicks first (check regardless of _dragStart)
       const taskCheckboxHit = this.getTaskCheckboxAtWorld(w.x, w.y);
       if (taskCheckboxHit) {
-        // Complete all tasks in the note
-        await this.completeAllTasksInNote(taskCheckboxHit.node);
+        // Toggle the selected task
+        await this.toggleTaskCompletion(taskCheckboxHit.node, taskCheckboxHit.taskIndex);
         return; // Don't process other clicks
       }
       
@@ -1612,11 +1819,12 @@ export class SkillTreeView extends ItemView {
       if (!nodeWasDragged) {
         nodeWasDragged = false; // Ensure it's reset if it wasn't set
       }
-      // If any edges changed during this mouseup, apply rules, save and render
+      // If any edges changed during this mouseup, apply rules, save, update the notes' frontmatter and render
       try {
         if (edgesChanged) {
           this.applyConnectionStateRules();
           await this.saveNodes();
+          await this.syncFrontmatter();
           this.render();
         } else {
           try { this.saveNodes(); } catch (e) {}
@@ -1700,8 +1908,58 @@ export class SkillTreeView extends ItemView {
       this.render();
     }, { passive: false });
 
-    await this.loadNodes();
     try { (handlesCheckbox as HTMLInputElement).checked = !!this.settings.showHandles; } catch (e) {}
+
+    // Nodes are loaded from the tree file in setViewData(); see loadTree()
+    
+    // Force initial resize to ensure canvas has size
+    this.resize();
+    // Ensure canvas is properly sized before first render
+    if (this.canvas && (this.canvas.width === 0 || this.canvas.height === 0)) {
+      const dpr = window.devicePixelRatio || 1;
+      this.canvas.width = Math.floor(800 * dpr);
+      this.canvas.height = Math.floor(400 * dpr);
+      if (this.context) {
+        this.context.setTransform(dpr, 0, 0, dpr, 0, 0);
+      }
+    }
+    this.render();
+    // Some layouts may not be measured correctly immediately — run another resize/render
+    // on the next frame and shortly after to ensure the canvas has real size.
+    window.requestAnimationFrame(() => { this.resize(); this.render(); });
+    setTimeout(() => { this.resize(); this.render(); }, 50);
+    
+    // Start animation loop for pulsing selected node
+    this.startAnimationLoop();
+  }
+
+  async onClose(): Promise<void> {
+    // remove keyboard handler
+    try { window.removeEventListener('keydown', this._keyHandler as any); } catch (e) {}
+    // Stop animation loop
+    this.stopAnimationLoop();
+    // Vault event handlers are detached by registerEvent; drop what they would have used
+    this._nodeIdsByPath.clear();
+    this._tasksCache.clear();
+    await super.onClose();
+  }
+
+  /**
+   * Prepare freshly loaded tree data (from setViewData) for display:
+   * sync nodes with their notes, load tasks and center the view.
+   */
+  async loadTree() {
+    // Forget notes and tasks of the previously loaded tree
+    this._nodeIdsByPath.clear();
+    this._frontmatterConflicts = [];
+    this._tasksCache.clear();
+    this._taskPositions.clear();
+    this._previousNodeStates.clear();
+    this._nodeStateChangeAnimations.clear();
+    this._historyBaseline = null;
+
+    await this.loadNodes();
+    this.indexNodeFiles();
     
     // Initialize previous states for all nodes
     for (const node of this.nodes) {
@@ -1711,8 +1969,7 @@ export class SkillTreeView extends ItemView {
     if (!this.nodes || this.nodes.length === 0) {
       this.nodes = defaultNodes();
       // Set default shapes for default nodes based on current style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       let defaultShape = styleDef?.nodeShape || 'circle';
       if (defaultShape === 'star') {
         defaultShape = 'circle';
@@ -1727,41 +1984,26 @@ export class SkillTreeView extends ItemView {
 
     // Load tasks for all nodes with file links
     await this.loadAllNodeTasks();
-    
-    // Force initial resize to ensure canvas has size
-    this.resize();
-    // Ensure canvas is properly sized before first render
-    if (this.canvas && (this.canvas.width === 0 || this.canvas.height === 0)) {
-      const dpr = window.devicePixelRatio || 1;
-      this.canvas.width = Math.floor(800 * dpr);
-      this.canvas.height = Math.floor(400 * dpr);
-      if (this.context) {
-        this.context.setTransform(dpr, 0, 0, dpr, 0, 0);
-      }
-    }
-    // Always center on nodes after loading
-    if (this.nodes.length > 0) {
-      this.recenterView();
+
+    // Remember this tree so the ribbon/command reopens it
+    if (this.file && this.settings.lastTreePath !== this.file.path) {
+      this.settings.lastTreePath = this.file.path;
+      await this.plugin.saveSettings();
     }
+
+    if (this.treeSelectEl) this.updateTreeSelector(this.treeSelectEl);
+    // Changes from here on are logged to the history
+    this._historyCause = null;
+    this._historyBaseline = this.takeProgressSnapshot();
+    // Levels of the new tree are not level-ups
+    this._previousLevel = 0;
+    this._previousGlobalLevel = 0;
+    await this.refreshOtherTreesExp();
     // Always center on nodes after loading
     if (this.nodes.length > 0) {
       this.recenterView();
     }
     this.render();
-    // Some layouts may not be measured correctly immediately — run another resize/render
-    // on the next frame and shortly after to ensure the canvas has real size.
-    window.requestAnimationFrame(() => { this.resize(); this.render(); });
-    setTimeout(() => { this.resize(); this.render(); }, 50);
-    
-    // Start animation loop for pulsing selected node
-    this.startAnimationLoop();
-  }
-
-  async onClose(): Promise<void> {
-    // remove keyboard handler
-    try { window.removeEventListener('keydown', this._keyHandler as any); } catch (e) {}
-    // Stop animation loop
-    this.stopAnimationLoop();
   }
 
   startAnimationLoop() {
@@ -1818,6 +2060,8 @@ export class SkillTreeView extends ItemView {
       this.historyFuture.push(cur);
       this.applySnapshot(prev);
       try { this.saveNodes(); } catch (e) {}
+      // Put the restored connections back into the notes
+      this.syncFrontmatter().catch(() => {});
     }
   }
 
@@ -1829,6 +2073,8 @@ export class SkillTreeView extends ItemView {
       this.historyPast.push(cur);
       this.applySnapshot(next);
       try { this.saveNodes(); } catch (e) {}
+      // Put the restored connections back into the notes
+      this.syncFrontmatter().catch(() => {});
     }
   }
 
@@ -1855,13 +2101,8 @@ export class SkillTreeView extends ItemView {
       this.context.font = '14px sans-serif';
 
       // Wrap label after 4 words per line and append exp to last line
-      const exp = n.exp !== undefined ? n.exp : 10;
-      const words = (this.getNodeDisplayLabel(n) || '').split(/\s+/).filter(Boolean);
-      const lines: string[] = [];
-      for (let i = 0; i < words.length; i += 4) {
-        lines.push(words.slice(i, i + 4).join(' '));
-      }
-      if (lines.length === 0) lines.push('');
+      const exp = this.getNodeExpProgress(n).total;
+      const { lines, fileName, iconName } = this.getNodeTextLines(n);
       if (exp > 0 || this.settings.showExpAsFraction) {
         lines[lines.length - 1] = `${lines[lines.length - 1]} (${exp})`.trim();
       }
@@ -1874,17 +2115,6 @@ export class SkillTreeView extends ItemView {
 
       // Measure file name if present (using smaller font)
       let fileNameWidth = 0;
-      let fileName = '';
-      if (n.fileLink) {
-        const pathParts = n.fileLink.split('/');
-        fileName = pathParts[pathParts.length - 1];
-        if (fileName.endsWith('.md')) fileName = fileName.slice(0, -3);
-        // Take first part before ---
-        fileName = fileName.split(' --- ')[0].trim();
-      } else {
-        // No file link, show prompt
-        fileName = 'Right click to add note';
-      }
       if (fileName) {
         this.context.font = '12px sans-serif';
         fileNameWidth = this.context.measureText(fileName).width || 0;
@@ -1899,14 +2129,15 @@ export class SkillTreeView extends ItemView {
       const verticalPadding = 8; // px vertical padding
       const lineHeight = 16; // px at device pixel measurement
 
-      const numLines = lines.length + (n.fileLink ? 1 : 0);
+      const numLines = (iconName ? 1 : 0) + lines.length + (fileName ? 1 : 0);
       const textHeight = numLines * lineHeight;
 
       const desiredScreenRadiusFromWidth = textWidth / 2 + horizontalPadding;
       const desiredScreenRadiusFromHeight = textHeight / 2 + verticalPadding;
       const desiredScreenRadius = Math.max(desiredScreenRadiusFromWidth, desiredScreenRadiusFromHeight);
       const desiredWorldRadius = desiredScreenRadius / Math.max(0.0001, this.scale);
-      return Math.max(this.settings.nodeRadius, desiredWorldRadius);
+      // `skilltree-size` scales the node, text included
+      return Math.max(this.settings.nodeRadius, desiredWorldRadius) * (this.getNodeStyle(n).size ?? 1);
     } catch (e) {
       try { this.context && this.context.restore(); } catch (e2) {}
       return this.settings.nodeRadius;
@@ -1954,8 +2185,7 @@ export class SkillTreeView extends ItemView {
 
   addNode(x: number, y: number) {
     // Get default shape based on current style
-    const selectedStyle = this.settings.style || 'default';
-    const styleDef = SKILL_TREE_STYLES[selectedStyle];
+    const styleDef = this.getStyleDef();
     let defaultShape = styleDef?.nodeShape || 'circle';
     // Filter out 'star' as it's not a valid node shape (only style shape)
     if (defaultShape === 'star') {
@@ -1963,7 +2193,7 @@ export class SkillTreeView extends ItemView {
     }
     
     this.nodes.push({ 
-      id: Date.now() + Math.random(), 
+      id: generateId(new Set(this.nodes.map((n) => n.id))), 
       x, 
       y, 
       state: 'unavailable',
@@ -1972,146 +2202,105 @@ export class SkillTreeView extends ItemView {
     });
   }
 
-  // Apply connection state rules
-  applyConnectionStateRules() {
+  // Apply connection state rules (see computeNodeStates) and animate the resulting transitions
+  applyConnectionStateRules(): StateEngineResult {
     // Track state changes for animations (only in gamified mode)
-    const selectedStyle = this.settings.style || 'gamified';
-    const isGamified = selectedStyle === 'gamified';
-    
-    // Build lookup maps
-    const idToNode = new Map<number, SkillNode>();
-    for (const n of this.nodes) idToNode.set(n.id, n);
-    
-    // Build parent/children maps
-    // parentsMap: nodes this node points TO (arrow points to parent)
-    // childrenMap: nodes that point TO this node (arrow comes from children)
-    const parentsMap = new Map<number, SkillNode[]>();
-    const childrenMap = new Map<number, SkillNode[]>();
+    const isGamified = this.isGamifiedStyle();
     
-    for (const ee of this.edges) {
-      if (ee.from != null && ee.to != null) {
-        const fromNode = idToNode.get(ee.from as number);
-        const toNode = idToNode.get(ee.to as number);
-        if (fromNode && toNode) {
-          // toNode is the parent (arrow points to it)
-          const children = childrenMap.get(ee.to as number) || [];
-          children.push(fromNode);
-          childrenMap.set(ee.to as number, children);
-          
-          // fromNode is the child (has parent toNode)
-          const parents = parentsMap.get(ee.from as number) || [];
-          parents.push(toNode);
-          parentsMap.set(ee.from as number, parents);
-        }
-      }
+    const taskCompletion = new Map<NodeId, TaskCompletion>();
+    for (const nodeId of this._tasksCache.keys()) {
+      taskCompletion.set(nodeId, this.getNodeTaskCompletion(nodeId));
     }
     
-    // Rule 1: If a node is orphaned (disconnected), set it to unavailable
-    // BUT: Allow orphaned nodes to be complete if all tasks are complete
-    // Rule 2: If a node was disconnected and had children, don't change the state
+    const result = computeNodeStates(this.nodes, this.edges, taskCompletion, {
+      inProgressThreshold: (this.settings.inProgressThreshold || 0) / 100
+    });
     for (const n of this.nodes) {
-      const hasAnyConnection = this.edges.some((ee) => ee.from === n.id || ee.to === n.id);
-      const children = childrenMap.get(n.id) || [];
-      const tasks = this._tasksCache.get(n.id) || [];
-      const hasTasks = tasks.length > 0;
-      const allTasksComplete = hasTasks && tasks.every((task: any) => task.completed);
-      
-      if (!hasAnyConnection) {
-        // Node is disconnected
-        if (children.length === 0) {
-          // Truly orphaned
-          if (allTasksComplete) {
-            // All tasks complete - set to complete (even if orphaned)
-            const prevState = this._previousNodeStates.get(n.id);
-            if (prevState !== 'complete' && isGamified) {
-              // State changed to complete - trigger animation
-              this._nodeStateChangeAnimations.set(n.id, { type: 'complete', startTime: this._animationTime });
-            }
-            n.state = 'complete';
-          } else if (n.state !== 'complete') {
-            // Not all tasks complete and not already complete - set to unavailable
-            n.state = 'unavailable';
-          }
-          // If already complete, keep it complete
-        }
-        // If it had children, don't change the state (Rule 2)
-      }
+      const state = result.states.get(n.id);
+      if (state) n.state = state;
     }
     
-    // Rule 3: When connecting a node, make all parents (traversing up the tree) unavailable
-    // Also set child nodes to in-progress when they have parents
-    // Traverse up from each parent to mark all ancestors as unavailable
-    const markAncestorsUnavailable = (nodeId: number, visited: Set<number>) => {
-      if (visited.has(nodeId)) return; // Prevent cycles
-      visited.add(nodeId);
-      
-      const node = idToNode.get(nodeId);
-      if (node) {
-        // Only mark as unavailable if not already complete (preserve complete state)
-        // Rule 4 will override if all children are complete
-        if (node.state !== 'complete') {
-          node.state = 'unavailable';
-        }
-      }
-      
-      // Get parents of this node (following arrowheads UP the tree) and mark them too
-      const parents = parentsMap.get(nodeId) || [];
-      for (const parent of parents) {
-        markAncestorsUnavailable(parent.id, visited);
-      }
-    };
-    
-    // For each edge, set child to in-progress and mark the parent and all its ancestors as unavailable
-    for (const ee of this.edges) {
-      if (ee.from != null && ee.to != null) {
-        const childNode = idToNode.get(ee.from as number);
-        const parentNode = idToNode.get(ee.to as number);
-        
-        // Set child to in-progress when it has a parent (unless it's already complete)
-        if (childNode && childNode.state !== 'complete') {
-          const prevState = this._previousNodeStates.get(childNode.id);
-          if (prevState !== 'in-progress' && isGamified) {
-            // State changed to in-progress - trigger animation
-            this._nodeStateChangeAnimations.set(childNode.id, { type: 'in-progress', startTime: this._animationTime });
-          }
-          childNode.state = 'in-progress';
-        }
-        
-        // Mark parent and all ancestors as unavailable
-        if (parentNode) {
-          markAncestorsUnavailable(parentNode.id, new Set());
-        }
+    for (const transition of result.transitions) {
+      this._previousNodeStates.set(transition.nodeId, transition.to);
+      if (isGamified && transition.to !== 'unavailable') {
+        this._nodeStateChangeAnimations.set(transition.nodeId, { type: transition.to, startTime: this._animationTime });
       }
     }
-    
-    // Rule 4: If a node has children, it should be unavailable until all of its children are complete
-    // Apply this AFTER Rule 3 so it can override when all children are complete
+    this.syncHistory();
+    return result;
+  }
+
+  // Snapshot of every node's state and earned EXP, to diff against for the history
+  takeProgressSnapshot(): Map<NodeId, NodeProgressSnapshot> {
+    const snapshot = new Map<NodeId, NodeProgressSnapshot>();
     for (const n of this.nodes) {
-      const children = childrenMap.get(n.id) || [];
-      if (children.length > 0) {
-        // Check if all children are complete
-        const allChildrenComplete = children.every((child) => child.state === 'complete');
-        if (allChildrenComplete) {
-          // All children are complete - set parent to in-progress (unless it's already complete)
-          // This overrides Rule 3 for nodes where all children are complete
-          // IMPORTANT: Preserve complete state - if user set it to complete, keep it complete
-          if (n.state !== 'complete') {
-            const prevState = this._previousNodeStates.get(n.id);
-            if (prevState !== 'in-progress' && isGamified) {
-              // State changed to in-progress - trigger animation
-              this._nodeStateChangeAnimations.set(n.id, { type: 'in-progress', startTime: this._animationTime });
-            }
-            n.state = 'in-progress';
-          }
-          // If it's already complete, leave it as complete (don't change it)
-        } else {
-          // Not all children are complete, so this node should be unavailable
-          // But preserve complete state if user explicitly set it (though this shouldn't happen)
-          if (n.state !== 'complete') {
-            n.state = 'unavailable';
-          }
+      snapshot.set(n.id, { state: n.state, earned: this.getNodeExpProgress(n).earned });
+    }
+    return snapshot;
+  }
+
+  // Append history entries for everything that changed since the last sync. Returns true if any were added.
+  syncHistory(): boolean {
+    if (!this._historyBaseline) return false;
+    const snapshot = this.takeProgressSnapshot();
+    const entries = diffProgress(this._historyBaseline, snapshot, this._historyCause, Date.now());
+    this._historyBaseline = snapshot;
+    this._historyCause = null;
+    if (entries.length === 0) return false;
+    this.history.push(...entries);
+    return true;
+  }
+
+  // Checkbox (open task) or checkmark (done task) centered on a selected task node
+  drawTaskCheckbox(ctx: CanvasRenderingContext2D, x: number, y: number, completed: boolean) {
+    if (completed) {
+      // Draw SVG checkmark icon (green circle with white checkmark) when completed - centered
+      const iconSize = TASK_CHECKMARK_SIZE / this.scale;
+      const iconX = x - iconSize / 2;
+      const iconY = y - iconSize / 2;
+      
+      ctx.save();
+      ctx.translate(iconX, iconY);
+      // Draw circular background
+      ctx.fillStyle = '#4caf50'; // Green background
+      ctx.beginPath();
+      ctx.arc(iconSize / 2, iconSize / 2, iconSize / 2, 0, Math.PI * 2);
+      ctx.fill();
+      // Draw white checkmark
+      ctx.strokeStyle = '#fff';
+      ctx.fillStyle = '#fff';
+      ctx.lineWidth = 2.5 / this.scale;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(iconSize * 0.25, iconSize * 0.5);
+      ctx.lineTo(iconSize * 0.45, iconSize * 0.7);
+      ctx.lineTo(iconSize * 0.75, iconSize * 0.3);
+      ctx.stroke();
+      ctx.restore();
+    } else {
+      // Draw checkbox when not completed (clickable) - centered
+      const checkboxSize = TASK_CHECKBOX_SIZE / this.scale;
+      const checkboxX = x - checkboxSize / 2;
+      const checkboxY = y - checkboxSize / 2;
+      
+      // Get text color for checkbox border
+      const styleDef = this.getStyleDef();
+      let checkboxColor = '#333';
+      if (styleDef) {
+        const bgColor = styleDef.backgroundColor;
+        // Check if background is dark
+        if (bgColor && (bgColor.includes('#1') || bgColor.includes('#2') || bgColor.includes('#0') || 
+            bgColor.includes('rgb(2') || bgColor.includes('rgb(1') || bgColor.includes('rgb(3'))) {
+          checkboxColor = '#fff';
         }
       }
+      
+      // Draw checkbox border
+      ctx.beginPath();
+      ctx.strokeStyle = checkboxColor;
+      ctx.lineWidth = 2 / this.scale;
+      ctx.strokeRect(checkboxX, checkboxY, checkboxSize, checkboxSize);
     }
   }
 
@@ -2127,12 +2316,18 @@ export class SkillTreeView extends ItemView {
     const hasSelectedTask = this.selectedTask && this.selectedTask.nodeId === node.id;
     
     // Filter to only top-level tasks (tasks without parents) for main orbit
-    const topLevelTasks = tasks.filter((t: any) => t.parentIndex === null || t.parentIndex === undefined);
+    const topLevelTasks = tasks.filter((t) => t.parentIndex === null || t.parentIndex === undefined);
     
     // Make task nodes more visible - use a larger radius
     const orbitRadius = nodeRadius * 1.8; // Distance from center of main node
     const baseTaskNodeRadius = Math.max(nodeRadius * 0.15, 8 / this.scale);
     const angleStep = topLevelTasks.length > 0 ? (Math.PI * 2) / topLevelTasks.length : 0; // Distribute top-level tasks evenly around
+    // Slot of each top-level task around the orbit, in the configured order
+    const orbitSlots = new Map<number, number>();
+    [...topLevelTasks]
+      .sort((a, b) => compareTasks(a, b, this.settings.taskSortOrder || 'file'))
+      .forEach((t, slot) => orbitSlots.set(tasks.indexOf(t), slot));
+    const today = moment().format('YYYY-MM-DD');
     
     const taskPositions: Array<{ taskIndex: number; x: number; y: number; radius: number }> = [];
     const parentTaskPositions = new Map<number, { x: number; y: number }>(); // Store parent task positions for drawing connections
@@ -2146,13 +2341,14 @@ export class SkillTreeView extends ItemView {
       const isTaskSelected = this.selectedTask && this.selectedTask.nodeId === node.id && this.selectedTask.taskIndex === i;
       
       // Calculate orbiting position with animation
-      const baseAngle = i * angleStep;
+      const baseAngle = (orbitSlots.get(i) ?? 0) * angleStep;
       // Pause orbit when any task from this node is selected
       const orbitSpeed = hasSelectedTask ? 0 : 0.0005;
       const angle = baseAngle + (this._animationTime * orbitSpeed);
       
       const taskX = node.x + Math.cos(angle) * orbitRadius;
       const taskY = node.y + Math.sin(angle) * orbitRadius;
+      parentTaskPositions.set(i, { x: taskX, y: taskY });
       
       // Expand only the selected task
       const taskNodeRadius = isTaskSelected ? Math.max(nodeRadius * 0.4, 20 / this.scale) : baseTaskNodeRadius;
@@ -2179,82 +2375,29 @@ export class SkillTreeView extends ItemView {
         }
       } catch (e) {}
       ctx.fillStyle = bgColor;
-      ctx.strokeStyle = isTaskSelected ? '#0066cc' : '#333'; // Blue border when selected
+      const overdue = isTaskOverdue(task, today);
+      ctx.strokeStyle = isTaskSelected ? '#0066cc' : overdue ? '#e53935' : '#333'; // Blue border when selected, red when overdue
       ctx.lineWidth = isTaskSelected ? 3 / this.scale : 2 / this.scale;
       ctx.arc(taskX, taskY, taskNodeRadius, 0, Math.PI * 2);
       ctx.fill();
       ctx.stroke();
       
-      // Draw inner circle (status indicator)
+      // Draw inner circle (status indicator): orange todo, blue in progress, green done, grey cancelled
       ctx.beginPath();
-      if (task.completed) {
-        ctx.fillStyle = '#4caf50'; // Green for completed
-      } else {
-        ctx.fillStyle = '#ff9800'; // Orange for incomplete
-      }
+      ctx.fillStyle = TASK_STATUS_COLORS[task.statusType as TaskStatusType] || TASK_STATUS_COLORS['todo'];
       ctx.arc(taskX, taskY, taskNodeRadius * 0.7, 0, Math.PI * 2);
       ctx.fill();
       
       // Draw checkbox or SVG checkmark - centered in task node when selected
       if (isTaskSelected) {
-        if (task.completed) {
-          // Draw SVG checkmark icon (green circle with white checkmark) when completed - centered
-          const iconSize = 18 / this.scale;
-          const iconX = taskX - iconSize / 2;
-          const iconY = taskY - iconSize / 2;
-          
-          ctx.save();
-          ctx.translate(iconX, iconY);
-          // Draw circular background
-          ctx.fillStyle = '#4caf50'; // Green background
-          ctx.beginPath();
-          ctx.arc(iconSize / 2, iconSize / 2, iconSize / 2, 0, Math.PI * 2);
-          ctx.fill();
-          // Draw white checkmark
-          ctx.strokeStyle = '#fff';
-          ctx.fillStyle = '#fff';
-          ctx.lineWidth = 2.5 / this.scale;
-          ctx.lineCap = 'round';
-          ctx.lineJoin = 'round';
-          ctx.beginPath();
-          ctx.moveTo(iconSize * 0.25, iconSize * 0.5);
-          ctx.lineTo(iconSize * 0.45, iconSize * 0.7);
-          ctx.lineTo(iconSize * 0.75, iconSize * 0.3);
-          ctx.stroke();
-          ctx.restore();
-        } else {
-          // Draw checkbox when not completed (clickable) - centered
-          const checkboxSize = 16 / this.scale;
-          const checkboxX = taskX - checkboxSize / 2;
-          const checkboxY = taskY - checkboxSize / 2;
-          
-          // Get text color for checkbox border
-          const selectedStyle = this.settings.style || 'gamified';
-          const styleDef = SKILL_TREE_STYLES[selectedStyle];
-          let checkboxColor = '#333';
-          if (styleDef) {
-            const bgColor = styleDef.backgroundColor;
-            // Check if background is dark
-            if (bgColor && (bgColor.includes('#1') || bgColor.includes('#2') || bgColor.includes('#0') || 
-                bgColor.includes('rgb(2') || bgColor.includes('rgb(1') || bgColor.includes('rgb(3'))) {
-              checkboxColor = '#fff';
-            }
-          }
-          
-          // Draw checkbox border
-          ctx.beginPath();
-          ctx.strokeStyle = checkboxColor;
-          ctx.lineWidth = 2 / this.scale;
-          ctx.strokeRect(checkboxX, checkboxY, checkboxSize, checkboxSize);
-        }
+        this.drawTaskCheckbox(ctx, taskX, taskY, task.completed);
       }
       
       // Draw task text - show full text below task node when selected
       // Get theme-aware text color based on style background
       let textColor = '#000'; // Default to black for light mode
       try {
-        const selectedStyle = this.settings.style || 'gamified';
-        const styleDef = SKILL_TREE_STYLES[selectedStyle];
+        const styleDef = this.getStyleDef();
         
         if (styleDef) {
           const bgColor = styleDef.backgroundColor;
@@ -2298,7 +2441,7 @@ export class SkillTreeView extends ItemView {
       const fontSize = isTaskSelected ? Math.max(14 / this.scale, 12) : Math.max(10 / this.scale, 8);
       ctx.font = `${fontSize}px sans-serif`;
       
-      const taskText = task.text || '';
+      const taskText = this.getTaskDisplayText(task);
       const textY = taskY + taskNodeRadius + (isTaskSelected ? 12 / this.scale : 4 / this.scale);
       
       // When selected, show full text below with word wrapping
@@ -2333,6 +2476,13 @@ export class SkillTreeView extends ItemView {
         if (line) {
           ctx.fillText(line, taskX, textY + yOffset);
         }
+        // Dates and recurrence below the text
+        const details = this.getTaskDetailsText(task);
+        if (details) {
+          yOffset += fontSize + 4;
+          ctx.fillStyle = overdue ? '#e53935' : textColor;
+          ctx.fillText(details, taskX, textY + yOffset);
+        }
         
         ctx.restore();
       } else {
@@ -2344,7 +2494,8 @@ export class SkillTreeView extends ItemView {
       ctx.restore();
     }
     
-    // Second pass: render child tasks connected to their parents
+    // Second pass: render child tasks connected to their parents, each level orbiting the one above.
+    // Children always come after their parent in the list, so parents are placed first
     for (let i = 0; i < tasks.length; i++) {
       const task = tasks[i];
       // Only process child tasks
@@ -2364,15 +2515,20 @@ export class SkillTreeView extends ItemView {
       const childIndex = parentChildren.indexOf(i);
       const totalChildren = parentChildren.length;
       
-      // Position child tasks in a smaller orbit around their parent
-      const childOrbitRadius = baseTaskNodeRadius * 2.5; // Smaller orbit for children
+      // Nesting depth (1 for children of top-level tasks)
+      let depth = 1;
+      for (let p = parentTask.parentIndex; p !== null && p !== undefined; p = tasks[p].parentIndex) depth++;
+      
+      // Position child tasks in a smaller orbit around their parent, shrinking with depth
+      const childOrbitRadius = baseTaskNodeRadius * 2.5 * Math.pow(0.8, depth - 1); // Smaller orbit for children
       const childAngleStep = totalChildren > 1 ? (Math.PI * 2) / totalChildren : 0;
       const childBaseAngle = childIndex * childAngleStep;
       const childAngle = childBaseAngle + (hasSelectedTask ? 0 : this._animationTime * 0.0003); // Slower orbit for children
       
       const childX = parentPos.x + Math.cos(childAngle) * childOrbitRadius;
       const childY = parentPos.y + Math.sin(childAngle) * childOrbitRadius;
-      const childRadius = baseTaskNodeRadius * 0.7; // Smaller than parent tasks
+      parentTaskPositions.set(i, { x: childX, y: childY });
+      const childRadius = baseTaskNodeRadius * Math.pow(0.7, depth); // Smaller than parent tasks
       
       // Check if this child task is selected
       const isChildSelected = this.selectedTask && this.selectedTask.nodeId === node.id && this.selectedTask.taskIndex === i;
@@ -2411,7 +2567,7 @@ export class SkillTreeView extends ItemView {
         }
       } catch (e) {}
       ctx.fillStyle = childBgColor;
-      ctx.strokeStyle = isChildSelected ? '#0066cc' : '#666';
+      ctx.strokeStyle = isChildSelected ? '#0066cc' : isTaskOverdue(task, today) ? '#e53935' : '#666';
       ctx.lineWidth = isChildSelected ? 2 / this.scale : 1.5 / this.scale;
       ctx.arc(childX, childY, childTaskRadius, 0, Math.PI * 2);
       ctx.fill();
@@ -2419,13 +2575,12 @@ export class SkillTreeView extends ItemView {
       
       // Draw inner circle (status indicator)
       ctx.beginPath();
-      if (task.completed) {
-        ctx.fillStyle = '#4caf50';
-      } else {
-        ctx.fillStyle = '#ff9800';
-      }
+      ctx.fillStyle = TASK_STATUS_COLORS[task.statusType as TaskStatusType] || TASK_STATUS_COLORS['todo'];
       ctx.arc(childX, childY, childTaskRadius * 0.7, 0, Math.PI * 2);
       ctx.fill();
+      if (isChildSelected) {
+        this.drawTaskCheckbox(ctx, childX, childY, task.completed);
+      }
       
       // Draw task text for child - ensure readable in dark mode
       let textColor = '#000';
@@ -2452,7 +2607,7 @@ export class SkillTreeView extends ItemView {
       const childFontSize = isChildSelected ? Math.max(10 / this.scale, 8) : Math.max(8 / this.scale, 7);
       ctx.font = `${childFontSize}px sans-serif`;
       
-      const childTaskText = task.text || '';
+      const childTaskText = this.getTaskDisplayText(task);
       const childMaxTextWidth = childTaskRadius * 5;
       const childTextY = childY + childTaskRadius + 3 / this.scale;
       
@@ -2497,34 +2652,14 @@ export class SkillTreeView extends ItemView {
     const node = this.nodes.find((n) => n.id === this.selectedTask!.nodeId);
     if (!node) return null;
     
-    const tasks = this._tasksCache.get(node.id) || [];
-    if (this.selectedTask.taskIndex < 0 || this.selectedTask.taskIndex >= tasks.length) return null;
-    
-    const task = tasks[this.selectedTask.taskIndex];
-    const nodeRadius = this.nodeRadii[node.id] || this.settings.nodeRadius;
-    
-    // Get top-level tasks for orbit calculation
-    const topLevelTasks = tasks.filter((t: any) => t.parentIndex === null || t.parentIndex === undefined);
-    const angleStep = topLevelTasks.length > 0 ? (Math.PI * 2) / topLevelTasks.length : 0;
-    const topLevelIndex = topLevelTasks.findIndex((t: any) => t.id === task.id);
-    const baseAngle = topLevelIndex >= 0 ? topLevelIndex * angleStep : 0;
-    const angle = baseAngle; // Orbit is paused when selected
-    
-    const orbitRadius = nodeRadius * 1.8;
-    const taskNodeRadius = Math.max(nodeRadius * 0.4, 20 / this.scale);
-    
-    const taskX = node.x + Math.cos(angle) * orbitRadius;
-    const taskY = node.y + Math.sin(angle) * orbitRadius;
+    // The checkbox is drawn centered on the selected task node, at any depth
+    const taskPos = this._taskPositions.get(node.id)?.find(p => p.taskIndex === this.selectedTask!.taskIndex);
+    if (!taskPos) return null;
     
     // Check both checkbox (if not completed) and checkmark icon (if completed)
-    const iconSize = 18 / this.scale;
-    const checkboxSize = 16 / this.scale;
-    const iconX = taskX - taskNodeRadius * 0.6;
-    const iconY = taskY - taskNodeRadius * 0.6;
-    
-    // Check if click is within checkbox/icon bounds
-    if (x >= iconX && x <= iconX + Math.max(iconSize, checkboxSize) && 
-        y >= iconY && y <= iconY + Math.max(iconSize, checkboxSize)) {
+    // The checkmark is the larger of the two
+    const half = TASK_CHECKMARK_SIZE / this.scale / 2;
+    if (Math.abs(x - taskPos.x) <= half && Math.abs(y - taskPos.y) <= half) {
       return { node, taskIndex: this.selectedTask.taskIndex };
     }
     
@@ -2593,7 +2728,7 @@ export class SkillTreeView extends ItemView {
   async loadAllNodeTasks() {
     // Load tasks even if Tasks plugin isn't installed (we can parse manually)
     for (const node of this.nodes) {
-      if (node.fileLink) {
+      if (node.fileLink || node.taskQuery) {
         await this.getNodeTasks(node);
       }
     }
@@ -2647,8 +2782,7 @@ export class SkillTreeView extends ItemView {
     
     try {
       // First, try to get background from the selected style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       if (styleDef && styleDef.backgroundColor) {
         bg = styleDef.backgroundColor;
       } else {
@@ -2754,12 +2888,11 @@ export class SkillTreeView extends ItemView {
       }
       context.save();
       // Get edge color from style or use theme-based color
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       let edgeColor: string;
       let edgeGlow = false;
       const edgeStyle = styleDef?.edgeStyle || 'straight';
-      const isGamified = selectedStyle === 'gamified';
+      const isGamified = this.isGamifiedStyle();
       
       // For gamified style, always use bezier (rigid)
       const useBezier = isGamified || this.settings.showBezier;
@@ -2939,15 +3072,14 @@ export class SkillTreeView extends ItemView {
       const r = (this.nodeRadii[n.id] || this.settings.nodeRadius || 36);
       context.beginPath();
       
-      // Check if node has a file but the file doesn't have the correct ID
-      const hasFileLinkIssue = n.fileLink && !this.nodeFileHasCorrectId(n);
+      // Check if node has a file but the file was deleted or doesn't have the correct ID
+      const hasFileLinkIssue = n.fileLink && (n.brokenLink || !this.nodeFileHasCorrectId(n));
       
       // fill/stroke depending on state - use actual state from node object
       const nodeState = n.state || 'in-progress';
       
       // Get colors from style or use defaults
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       
       if (hasFileLinkIssue) {
         // Node has a file but the file doesn't have the correct ID
@@ -2992,6 +3124,13 @@ export class SkillTreeView extends ItemView {
           context.strokeStyle = '#173';
         }
       }
+      // `skilltree-color` in the note replaces the style's state colors; file link issues keep the error colors
+      const nodeStyle = this.getNodeStyle(n);
+      const colorOverride = nodeStyle.color && !hasFileLinkIssue ? this.getNodeColorOverride(nodeStyle.color, nodeState) : null;
+      if (colorOverride) {
+        context.fillStyle = colorOverride.fill;
+        context.strokeStyle = colorOverride.stroke;
+      }
       context.lineWidth = 4 / this.scale;
       
       // Determine the shape to use (node shape from frontmatter takes precedence, then style default)
@@ -3039,17 +3178,37 @@ export class SkillTreeView extends ItemView {
         context.translate(-n.x, -n.y);
       }
       
-      // Draw the node shape
+      // Draw the node shape, with a dashed outline if its note was deleted
       context.beginPath();
       this.drawNodeShape(context, n.x, n.y, r, effectiveShape);
       context.fill();
+      if (n.brokenLink) context.setLineDash([8 / this.scale, 6 / this.scale]);
       context.stroke();
+      context.setLineDash([]);
       
       // Restore transform if rotation was applied
       if (isAnimated && nodeState === 'in-progress' && !hasFileLinkIssue) {
         context.restore();
       }
       
+      // Progress ring: share of the node's tasks that are done
+      const completion = this.getNodeTaskCompletion(n.id);
+      if (completion.total > 0) {
+        const ringR = r + 5 / this.scale;
+        context.lineWidth = 3 / this.scale;
+        context.beginPath();
+        context.strokeStyle = 'rgba(128,128,128,0.35)';
+        context.arc(n.x, n.y, ringR, 0, Math.PI * 2);
+        context.stroke();
+        const progress = getTaskProgress(completion);
+        if (progress > 0) {
+          context.beginPath();
+          context.strokeStyle = TASK_STATUS_COLORS.done;
+          context.arc(n.x, n.y, ringR, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+          context.stroke();
+        }
+      }
+      
       // Remove node shimmer, particle burst, and ripple animations - only animate edges
       
       // draw selection highlight if this node is selected with pulsing animation
@@ -3066,7 +3225,9 @@ export class SkillTreeView extends ItemView {
       }
       // Draw label - make it look clickable if there's a file link
       context.textAlign = 'center';
-      context.font = `${14 / this.scale}px sans-serif`;
+      // `skilltree-size` scales the text along with the node
+      const textScale = nodeStyle.size ?? 1;
+      context.font = `${14 * textScale / this.scale}px sans-serif`;
       
       // Get theme-aware text color
       let labelTextColor = '#000';
@@ -3079,37 +3240,28 @@ export class SkillTreeView extends ItemView {
       } catch (e) {}
       
       // Build wrapped label lines (wrap after 4 words) and append exp to last line
-      const exp = n.exp !== undefined ? n.exp : 0;
-      const words = (this.getNodeDisplayLabel(n) || '').split(/\s+/).filter(Boolean);
-      const lines: string[] = [];
-      for (let i = 0; i < words.length; i += 4) {
-        lines.push(words.slice(i, i + 4).join(' '));
-      }
-      if (lines.length === 0) lines.push('');
+      const exp = this.getNodeExpProgress(n).total;
+      // File name (or prompt) is rendered as its own line below the label
+      const { lines, fileName, iconName } = this.getNodeTextLines(n);
       if (exp > 0 || this.settings.showExpAsFraction) {
         lines[lines.length - 1] = `${lines[lines.length - 1]}`.trim();
       }
 
-      // Extract file name from fileLink if it exists (rendered as its own line)
-      let fileName = '';
-      if (n.fileLink) {
-        const pathParts = n.fileLink.split('/');
-        fileName = pathParts[pathParts.length - 1];
-        if (fileName.endsWith('.md')) fileName = fileName.slice(0, -3);
-        // Take first part before ---
-        fileName = fileName.split(' --- ')[0].trim();
-      } else {
-        // No file link, show prompt
-        fileName = 'Right click to add note';
-      }
-
-      const lineHeight = 16 / this.scale;
+      const lineHeight = 16 * textScale / this.scale;
       // Start drawing so the block of text is vertically centered around n.y
-      const totalLines = lines.length + (fileName ? 1 : 0);
-      const firstLineY = n.y - ((totalLines - 1) * lineHeight) / 2;
+      const iconLines = iconName ? 1 : 0;
+      const totalLines = iconLines + lines.length + (fileName ? 1 : 0);
+      const firstLineY = n.y - ((totalLines - 1) * lineHeight) / 2 + iconLines * lineHeight;
+
+      // Lucide icon on its own line above the label
+      const iconImage = iconName ? this.getIconImage(iconName, labelTextColor) : null;
+      if (iconImage) {
+        const iconSize = lineHeight;
+        context.drawImage(iconImage, n.x - iconSize / 2, firstLineY - lineHeight - iconSize * 0.75, iconSize, iconSize);
+      }
 
       // Determine fill style - use engraved effect for unavailable nodes in gamified mode
-      const isGamifiedUnavailable = (selectedStyle === 'gamified' && nodeState === 'unavailable');
+      const isGamifiedUnavailable = (this.isGamifiedStyle() && nodeState === 'unavailable');
       
       if (isGamifiedUnavailable) {
         // Engraved impression effect: draw darker shadow first, then lighter text on top
@@ -3148,7 +3300,7 @@ export class SkillTreeView extends ItemView {
 
       // Draw file name on its own line below wrapped label lines
       if (fileName) {
-        context.font = `${12 / this.scale}px sans-serif`;
+        context.font = `${12 * textScale / this.scale}px sans-serif`;
         
         if (isGamifiedUnavailable) {
           // Draw shadow/engraved effect for filename
@@ -3171,7 +3323,7 @@ export class SkillTreeView extends ItemView {
           context.fillText(fileName, n.x, y);
         }
         
-        context.font = `${14 / this.scale}px sans-serif`;
+        context.font = `${14 * textScale / this.scale}px sans-serif`;
       }
       
       // Reset shadow
@@ -3262,8 +3414,8 @@ export class SkillTreeView extends ItemView {
         if (!used.has('left')) { context.beginPath(); context.arc(n.x - r, n.y, hs / 2, 0, Math.PI * 2); context.stroke(); }
       }
       
-      // Draw orbiting task nodes if node has a file link (works even without Tasks plugin)
-      if (n.fileLink) {
+      // Draw orbiting task nodes if node has a file link or a task query (works even without Tasks plugin)
+      if (n.fileLink || n.taskQuery) {
         this.renderOrbitingTasks(context, n, r);
       }
     }
@@ -3285,9 +3437,9 @@ export class SkillTreeView extends ItemView {
       context.setLineDash([4 / this.scale, 4 / this.scale]);
       const tempColor = chooseEdgeColor();
       // compute controls for temp edge
-      const tempFromSide = this.creatingEdgeFromSide || this.getSideBetween(this.creatingEdgeFrom, { id: -1, x: bx, y: by, state: 'unavailable' });
+      const tempFromSide = this.creatingEdgeFromSide || this.getSideBetween(this.creatingEdgeFrom, { id: '', x: bx, y: by, state: 'unavailable' });
       const tempControls = computeBezierControls(sx1, sy1, bx, by, tempFromSide, null, r, 0);
-      const isGamifiedTemp = (this.settings.style || 'default') === 'gamified';
+      const isGamifiedTemp = this.isGamifiedStyle();
       const useBezierTemp = isGamifiedTemp || this.settings.showBezier;
       const drawBezierTemp = isGamifiedTemp ? drawRigidBezierArrow : drawBezierArrow;
       if (useBezierTemp) {
@@ -3332,13 +3484,11 @@ export class SkillTreeView extends ItemView {
     let totalAvailableExp = 0;
     
     for (const node of this.nodes) {
-      const nodeExp = node.exp !== undefined ? node.exp : 10;
-      totalAvailableExp += nodeExp;
+      const progress = this.getNodeExpProgress(node);
+      totalAvailableExp += progress.total;
       
-      // Only count exp from completed nodes
-      if (node.state === 'complete') {
-        totalExp += nodeExp;
-      }
+      // Completed nodes count fully, in-progress nodes count their completed tasks
+      totalExp += progress.earned;
     }
     
     // Check if exp just reached total (for animation)
@@ -3348,6 +3498,19 @@ export class SkillTreeView extends ItemView {
     }
     this._previousTotalExp = totalExp;
     
+    // Tree level from this tree's EXP, global level from all trees
+    const curve = this.settings.levelCurve;
+    const treeLevel = getLevelInfo(totalExp, curve);
+    const globalLevel = getLevelInfo(totalExp + this._otherTreesExp, curve);
+    const leveledUp = (this._previousLevel > 0 && treeLevel.level > this._previousLevel)
+      || (this._previousGlobalLevel > 0 && globalLevel.level > this._previousGlobalLevel);
+    if (leveledUp) {
+      // Level-up - reuse the overlay pulse animation
+      this._expOverlayAnimation = { startTime: this._animationTime, active: true };
+    }
+    this._previousLevel = treeLevel.level;
+    this._previousGlobalLevel = globalLevel.level;
+    
     // Clean up animation after 2 seconds
     if (this._expOverlayAnimation && this._animationTime - this._expOverlayAnimation.startTime > 2000) {
       this._expOverlayAnimation = null;
@@ -3396,9 +3559,20 @@ export class SkillTreeView extends ItemView {
       expText = `EXP: ${totalExp} / ${totalAvailableExp}`;
     }
     
-    const textMetrics = ctx.measureText(expText);
-    const boxWidth = textMetrics.width + padding * 2;
-    const boxHeight = fontSize + padding * 2;
+    const levelText = `Level ${treeLevel.level}  ·  ${treeLevel.expIntoLevel} / ${treeLevel.expForNextLevel}`;
+    // Global level only matters with more than one tree
+    const globalText = this._otherTreeCount > 0 ? `Global level ${globalLevel.level}` : '';
+    const smallFontSize = 12;
+    const barHeight = 6;
+    const lineGap = 6;
+
+    let textWidth = ctx.measureText(expText).width;
+    ctx.font = `${smallFontSize}px sans-serif`;
+    textWidth = Math.max(textWidth, ctx.measureText(levelText).width, globalText ? ctx.measureText(globalText).width : 0);
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    const boxWidth = Math.max(textWidth, 160) + padding * 2;
+    const boxHeight = fontSize + lineGap + smallFontSize + lineGap + barHeight
+      + (globalText ? lineGap + smallFontSize : 0) + padding * 2;
     const x = this.canvas!.width - boxWidth - padding;
     const y = padding + 60; // Position below toolbar (60px for toolbar height) to avoid status bar
     
@@ -3469,7 +3643,25 @@ export class SkillTreeView extends ItemView {
     ctx.fillStyle = textColor;
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
-    ctx.fillText(expText, x + padding, y + boxHeight / 2);
+    let lineY = y + padding + fontSize / 2;
+    ctx.fillText(expText, x + padding, lineY);
+
+    // Level line and progress bar to the next level
+    ctx.font = `${smallFontSize}px sans-serif`;
+    lineY += fontSize / 2 + lineGap + smallFontSize / 2;
+    ctx.fillText(levelText, x + padding, lineY);
+    const barY = lineY + smallFontSize / 2 + lineGap;
+    const barWidth = boxWidth - padding * 2;
+    ctx.fillStyle = borderColor;
+    ctx.fillRect(x + padding, barY, barWidth, barHeight);
+    ctx.fillStyle = glowIntensity > 0 ? '#4caf50' : (this.getStyleDef()?.nodeColors.complete.fill || '#4caf50');
+    ctx.fillRect(x + padding, barY, barWidth * Math.min(1, treeLevel.progress), barHeight);
+
+    if (globalText) {
+      ctx.fillStyle = textColor;
+      lineY = barY + barHeight + lineGap + smallFontSize / 2;
+      ctx.fillText(globalText, x + padding, lineY);
+    }
     
     ctx.restore();
   }
@@ -3563,20 +3755,10 @@ export class SkillTreeView extends ItemView {
 
   async saveNodes() {
     try {
-      // Save current tree data
-      const currentTree = this.settings.trees[this.settings.currentTreeName];
-      if (currentTree) {
-        currentTree.nodes = JSON.parse(JSON.stringify(this.nodes));
-        currentTree.edges = JSON.parse(JSON.stringify(this.edges));
-      } else {
-        // Create tree if it doesn't exist
-        this.settings.trees[this.settings.currentTreeName] = {
-          name: this.settings.currentTreeName,
-          nodes: JSON.parse(JSON.stringify(this.nodes)),
-          edges: JSON.parse(JSON.stringify(this.edges))
-        };
-      }
-      await this.plugin.saveSettings();
+      // Nodes or their links may have changed; keep the vault event index in step
+      this.indexNodeFiles();
+      // Write the current tree back to its .skilltree file (debounced by Obsidian)
+      if (this.file && !this._treeLoadFailed) this.requestSave();
     } catch (e) {
       // ignore
     }
@@ -3584,45 +3766,12 @@ export class SkillTreeView extends ItemView {
 
   async loadNodes() {
     try {
-      // Load current tree data from settings
-      const currentTree = this.settings.trees[this.settings.currentTreeName];
-      if (currentTree) {
-        this.nodes = currentTree.nodes || [];
-        this.edges = currentTree.edges || [];
-      } else {
-        // Initialize if tree doesn't exist
-        this.nodes = [];
-        this.edges = [];
-        this.settings.trees[this.settings.currentTreeName] = {
-          name: this.settings.currentTreeName,
-          nodes: [],
-          edges: []
-        };
-        await this.plugin.saveSettings();
-      }
-      
-      // Legacy support: try loading from old data format if current tree is empty
-      if (this.nodes.length === 0) {
-        const p: any = this.plugin as any;
-        if (p && typeof p.loadData === 'function') {
-          const data: any = await p.loadData();
-          if (data && Array.isArray(data.nodes) && data.nodes.length > 0) {
-            // Migrate old data to new format
-            this.nodes = data.nodes;
-            this.edges = (data as any).edges || [];
-            this.settings.trees[this.settings.currentTreeName] = {
-              name: this.settings.currentTreeName,
-              nodes: this.nodes,
-              edges: this.edges
-            };
-            await this.plugin.saveSettings();
-          }
-        }
-      }
+      // Nodes and edges have already been parsed from the tree file by setViewData()
+      this.nodes = this.nodes || [];
+      this.edges = this.edges || [];
       
       // Get default shape based on current style
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       let defaultShape = styleDef?.nodeShape || 'circle';
       // Filter out 'star' as it's not a valid node shape (only style shape)
       if (defaultShape === 'star') {
@@ -3653,6 +3802,8 @@ export class SkillTreeView extends ItemView {
                 // File exists but no exp in frontmatter, default to 10
                 node.exp = 10;
               }
+              // Unlock rule from frontmatter takes precedence over the stored one
+              node.unlock = this.getUnlockRuleFromFrontmatter(frontmatter, node.unlock);
             } else {
               // File doesn't exist, default to 10
               node.exp = 10;
@@ -3669,36 +3820,11 @@ export class SkillTreeView extends ItemView {
         }
       }
 
-      // Sync node IDs with file frontmatter - node ID takes precedence
-      // If a node has a fileLink, ensure the file's frontmatter matches the node's ID
-      for (const node of this.nodes) {
-        if (node.fileLink) {
-          try {
-            let normalizedPath = node.fileLink.trim();
-            if (normalizedPath.startsWith('/')) normalizedPath = normalizedPath.substring(1);
-            if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
-            
-            const file = this.app.vault.getAbstractFileByPath(normalizedPath);
-            if (file && file instanceof TFile) {
-              const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
-              const fileNodeId = frontmatter?.['skilltree-node'];
-              
-              // If file has a different ID, update it to match the node's ID (node ID takes precedence)
-              if (fileNodeId !== undefined && fileNodeId !== node.id) {
-                await this.updateFileFrontmatterWithNodeId(node.fileLink, node.id);
-              } else if (fileNodeId === undefined) {
-                // File doesn't have the ID, add it
-                await this.updateFileFrontmatterWithNodeId(node.fileLink, node.id);
-              }
-            }
-          } catch (e) {
-            console.warn('Failed to sync node ID with file:', e);
-          }
-        }
-      }
-
-      // Associate existing notes with nodes using Dataview
-      await this.associateNotesWithNodes();
+      // Add the prerequisites listed in notes, then bring every linked note's frontmatter
+      // in line with the tree, and link notes claiming unlinked nodes
+      this.indexNodeFiles();
+      await this.syncPrerequisiteEdges(this.nodes, false);
+      await this.syncFrontmatter({ scanVault: true });
 
       // migrate edges to ensure fromSide/toSide are set when possible
       try {
@@ -3724,10 +3850,10 @@ export class SkillTreeView extends ItemView {
         // compute derived states (Unavailable) from children relationships
         const computeOnce = () => {
           let changed = false;
-          const idToNode = new Map<number, SkillNode>();
+          const idToNode = new Map<NodeId, SkillNode>();
           for (const nd of this.nodes) idToNode.set(nd.id, nd);
           // children are incoming (nodes that point to this node)
-          const getChildren = (nid: number) => this.edges.filter((ee) => ee.to === nid && ee.from != null).map((ee) => idToNode.get(ee.from as number)).filter(Boolean) as SkillNode[];
+          const getChildren = (nid: NodeId) => this.edges.filter((ee) => ee.to === nid && ee.from != null).map((ee) => idToNode.get(ee.from as NodeId)).filter(Boolean) as SkillNode[];
           for (const nd of this.nodes) {
             const children = getChildren(nd.id);
             if (nd.state !== undefined) continue; // preserve explicit persisted state
@@ -3756,137 +3882,91 @@ export class SkillTreeView extends ItemView {
   
   updateTreeSelector(select: HTMLSelectElement) {
     select.innerHTML = '';
-    for (const treeName of Object.keys(this.settings.trees)) {
-      const option = select.createEl('option', { text: treeName });
-      option.value = treeName;
-      if (treeName === this.settings.currentTreeName) {
+    for (const treeFile of getTreeFiles(this.app)) {
+      const option = select.createEl('option', { text: treeFile.basename });
+      option.value = treeFile.path;
+      if (this.file && treeFile.path === this.file.path) {
         option.selected = true;
       }
     }
   }
   
-  async switchTree(treeName: string) {
-    // Save current tree
-    await this.saveNodes();
-    
-    // Switch to new tree
-    this.settings.currentTreeName = treeName;
-    if (!this.settings.trees[treeName]) {
-      this.settings.trees[treeName] = {
-        name: treeName,
-        nodes: [],
-        edges: []
-      };
-    }
-    
-    // Load new tree
-    await this.loadNodes();
-    
-    // Clean up file watchers for old nodes
-    this._fileWatchers.forEach((watcher) => {
-      if (typeof watcher === 'function') {
-        watcher();
+  // Sum the EXP earned in every other tree file, counted like this tree's, and note which notes they read
+  async refreshOtherTreesExp() {
+    let exp = 0;
+    let count = 0;
+    const paths = new Set<string>();
+    for (const treeFile of getTreeFiles(this.app)) {
+      if (treeFile === this.file) continue;
+      count++;
+      try {
+        const tree = parseTreeData(await this.app.vault.cachedRead(treeFile), treeFile.basename);
+        exp += (await getTreeProgress(this.app, tree.nodes, this.settings, (node, tasks) => {
+          if (node.fileLink) paths.add(getNoteLinkPath(node.fileLink));
+          for (const task of tasks) if (task.filePath) paths.add(getNoteLinkPath(task.filePath));
+        })).earnedExp;
+      } catch (e) {
+        console.warn(`Failed to read EXP from ${treeFile.path}:`, e);
       }
-    });
-    this._fileWatchers.clear();
-    this._tasksCache.clear();
-    
-    // Reload tasks for new tree
-    await this.loadAllNodeTasks();
-    
-    await this.plugin.saveSettings();
+    }
+    this._otherTreesExp = exp;
+    this._otherTreeCount = count;
+    this._otherTreesPaths = paths;
     this.render();
   }
-  
-  async createTree(name: string) {
-    if (this.settings.trees[name]) {
-      alert('Tree with that name already exists');
-      return;
-    }
-    
-    this.settings.trees[name] = {
-      name: name,
-      nodes: [],
-      edges: []
-    };
+
+  /**
+   * Open another tree file in this view.
+   * @param treePath Vault path of the `.skilltree` file to open
+   */
+  async switchTree(treePath: string) {
+    const file = this.app.vault.getAbstractFileByPath(treePath);
+    if (!isTreeFile(file) || file === this.file) return;
     
-    await this.plugin.saveSettings();
+    // Save current tree before the file is swapped out
+    await this.save();
+    await this.leaf.openFile(file);
   }
   
-  async deleteTree(name: string) {
-    const wasCurrentTree = this.settings.currentTreeName === name;
-    
-    // Delete the tree from settings - ensure it's actually removed
-    if (this.settings.trees[name]) {
-      delete this.settings.trees[name];
-    }
-    
-    // Verify deletion
-    if (this.settings.trees[name]) {
-      console.error('Failed to delete tree:', name);
-      return;
+  /**
+   * Create a new, empty tree file in the default folder.
+   * @returns The created file, or null if it could not be created
+   */
+  async createTree(name: string, data?: Partial<SkillTreeData>): Promise<TFile | null> {
+    try {
+      return await createTreeFile(this.app, this.settings.defaultFilePath, name, data);
+    } catch (e) {
+      console.error('Failed to create tree:', e);
+      this.openErrorModal(`Failed to create tree "${name}": ${e.message}`);
+      return null;
     }
-    
-    if (wasCurrentTree) {
-      // Switch to first available tree (but don't save the deleted tree first)
-      const remainingTrees = Object.keys(this.settings.trees);
-      if (remainingTrees.length > 0) {
-        const firstTree = remainingTrees[0];
-        // Switch without saving the deleted tree
-        this.settings.currentTreeName = firstTree;
-        if (!this.settings.trees[firstTree]) {
-          this.settings.trees[firstTree] = {
-            name: firstTree,
-            nodes: [],
-            edges: []
-          };
-        }
-        // Load new tree
-        await this.loadNodes();
-        
-        // Clean up file watchers for old nodes
-        this._fileWatchers.forEach((watcher) => {
-          this.app.vault.off('modify', watcher);
-        });
-        this._fileWatchers.clear();
-        this._tasksCache.clear();
-        
-        // Reload tasks for new tree
-        await this.loadAllNodeTasks();
-      } else {
-        // No trees left - create a default one
-        this.settings.trees['default'] = {
-          name: 'default',
-          nodes: [],
-          edges: []
-        };
-        this.settings.currentTreeName = 'default';
-        await this.loadNodes();
-        
-        // Clean up file watchers
-        this._fileWatchers.forEach((watcher) => {
-          this.app.vault.off('modify', watcher);
-        });
-        this._fileWatchers.clear();
-        this._tasksCache.clear();
-        
-        // Reload tasks
-        await this.loadAllNodeTasks();
-      }
-      
-      await this.plugin.saveSettings();
-      this.render();
-    } else {
-      // Not the current tree, just save settings
-      await this.plugin.saveSettings();
+  }
+  
+  /**
+   * Move a tree file to the trash. If it is the tree shown in this view,
+   * another tree is opened first.
+   * @param treePath Vault path of the `.skilltree` file to delete
+   */
+  async deleteTree(treePath: string) {
+    const file = this.app.vault.getAbstractFileByPath(treePath);
+    if (!isTreeFile(file)) return;
+    
+    if (this.file && this.file.path === file.path) {
+      const nextTree = getTreeFiles(this.app).find((f) => f.path !== file.path);
+      if (nextTree) {
+        await this.switchTree(nextTree.path);
+      }
     }
+    
+    await this.app.fileManager.trashFile(file);
   }
   
   exportTree(): SkillTreeData {
     return {
-      name: this.settings.currentTreeName,
+      name: this.file?.basename || 'skill-tree',
       nodes: JSON.parse(JSON.stringify(this.nodes)),
-      edges: JSON.parse(JSON.stringify(this.edges))
+      edges: JSON.parse(JSON.stringify(this.edges)),
+      history: JSON.parse(JSON.stringify(this.history))
     };
   }
   
@@ -3899,23 +3979,25 @@ export class SkillTreeView extends ItemView {
     const treeName = data.name;
     
     // If tree exists, ask to overwrite
-    if (this.settings.trees[treeName]) {
+    const existing = getTreeFiles(this.app).find((f) => f.basename === treeName);
+    if (existing) {
       if (!confirm(`Tree "${treeName}" already exists. Overwrite?`)) {
         return;
       }
+      await this.app.vault.modify(existing, serializeTreeData({
+        ...data,
+        nodes: data.nodes || [],
+        edges: data.edges || []
+      }));
+      await this.switchTree(existing.path);
+      return;
     }
     
-    // Import the tree
-    this.settings.trees[treeName] = {
-      name: treeName,
-      nodes: data.nodes || [],
-      edges: data.edges || []
-    };
-    
-    // Switch to imported tree
-    await this.switchTree(treeName);
-    
-    await this.plugin.saveSettings();
+    // Import the tree into a new file and switch to it
+    const file = await this.createTree(treeName, data);
+    if (file) {
+      await this.switchTree(file.path);
+    }
   }
 
   getSideBetween(a: SkillNode, b: SkillNode): 'top'|'right'|'bottom'|'left' {
@@ -3927,11 +4009,11 @@ export class SkillTreeView extends ItemView {
     return dy > 0 ? 'bottom' : 'top';
   }
 
-  getNeighborNodes(nodeId: number): SkillNode[] {
-    const out = new Set<number>();
+  getNeighborNodes(nodeId: NodeId): SkillNode[] {
+    const out = new Set<NodeId>();
     for (const ee of this.edges) {
-      if (ee.from === nodeId && ee.to != null) out.add(ee.to as number);
-      if (ee.to === nodeId && ee.from != null) out.add(ee.from as number);
+      if (ee.from === nodeId && ee.to != null) out.add(ee.to as NodeId);
+      if (ee.to === nodeId && ee.from != null) out.add(ee.from as NodeId);
     }
     return Array.from(out).map((id) => this.nodes.find((n) => n.id === id)).filter(Boolean) as SkillNode[];
   }
@@ -3959,16 +4041,13 @@ export class SkillTreeView extends ItemView {
       
       if (actualState === 'in-progress' && !hasTasks) {
         // Calculate text bottom position (match wrapped rendering)
-        const lineHeight = 16 / this.scale;
-        const words = (this.getNodeDisplayLabel(n) || '').split(/\s+/).filter(Boolean);
-        const lines: string[] = [];
-        for (let i = 0; i < words.length; i += 4) lines.push(words.slice(i, i + 4).join(' '));
-        if (lines.length === 0) lines.push('');
-        // Always have a filename/prompt line
-        const totalLines = lines.length + 1;
-        const firstLineY = n.y - ((totalLines - 1) * lineHeight) / 2;
+        const lineHeight = 16 * (this.getNodeStyle(n).size ?? 1) / this.scale;
+        const { lines, fileName, iconName } = this.getNodeTextLines(n);
+        const iconLines = iconName ? 1 : 0;
+        const totalLines = iconLines + lines.length + (fileName ? 1 : 0);
+        const firstLineY = n.y - ((totalLines - 1) * lineHeight) / 2 + iconLines * lineHeight;
         let textBottomY = firstLineY + (lines.length - 1) * lineHeight;
-        textBottomY += lineHeight; // filename/prompt occupies another line
+        if (fileName) textBottomY += lineHeight; // filename/prompt occupies another line
         
         const checkboxSize = 12 / this.scale;
         const checkboxX = n.x - checkboxSize / 2;
@@ -3988,8 +4067,7 @@ export class SkillTreeView extends ItemView {
     for (const n of this.nodes) {
       const r = this.nodeRadii[n.id] || this.settings.nodeRadius || 36;
       // Get effective shape (node shape or style default)
-      const selectedStyle = this.settings.style || 'gamified';
-      const styleDef = SKILL_TREE_STYLES[selectedStyle];
+      const styleDef = this.getStyleDef();
       const defaultShape = styleDef?.nodeShape || 'circle';
       const effectiveShape = n.shape || defaultShape;
       
@@ -4097,17 +4175,17 @@ export class SkillTreeView extends ItemView {
   }
 
   // mark all ancestor parents (nodes reachable by following outgoing edges) as 'unavailable'
-  markAncestorsUnavailable(startNodeId: number): Set<number> {
-    const visited = new Set<number>();
+  markAncestorsUnavailable(startNodeId: NodeId): Set<NodeId> {
+    const visited = new Set<NodeId>();
     const stack = [startNodeId];
     while (stack.length > 0) {
-      const cur = stack.pop() as number;
+      const cur = stack.pop() as NodeId;
       if (visited.has(cur)) continue;
       visited.add(cur);
       // find parents: edges where from === cur -> to is a parent
       for (const ee of this.edges) {
         if (ee.from === cur && ee.to != null) {
-          const pid = ee.to as number;
+          const pid = ee.to as NodeId;
           if (!visited.has(pid)) stack.push(pid);
         }
       }
@@ -4144,7 +4222,7 @@ export class SkillTreeView extends ItemView {
         if (e.toSide === 'left') { sx2 = toNode.x - rTo; sy2 = toNode.y; }
       }
       // compute bezier controls and test distance to curve
-      const isGamifiedStyle = (this.settings.style || 'default') === 'gamified';
+      const isGamifiedStyle = this.isGamifiedStyle();
       const useBezierForHitTest = isGamifiedStyle || this.settings.showBezier;
       if (useBezierForHitTest) {
         const ctr = computeBezierControls(sx1, sy1, sx2, sy2, e.fromSide, e.toSide, rFrom, rTo);
@@ -4217,8 +4295,7 @@ export class SkillTreeView extends ItemView {
         this.recordSnapshot();
         const selected = stateSelect.value as ('complete'|'in-progress');
         const prevState = this._previousNodeStates.get(node.id);
-        const selectedStyle = this.settings.style || 'gamified';
-        const isGamified = selectedStyle === 'gamified';
+        const isGamified = this.isGamifiedStyle();
         
         // Track state change for animation
         if (prevState !== selected && isGamified) {
@@ -4228,6 +4305,7 @@ export class SkillTreeView extends ItemView {
         }
         
         node.state = selected;
+        this._historyCause = { nodeId: node.id, source: 'manual' };
         this.applyConnectionStateRules(); // Update parent states when child state changes
         try { await this.saveNodes(); } catch (e) {}
         this.render();
@@ -4236,6 +4314,273 @@ export class SkillTreeView extends ItemView {
   }
 
 
+  addNodeDetailsRows(modal: HTMLElement, node: SkillNode) {
+    const makeRow = (labelText: string) => {
+      const row = modal.createDiv({ cls: 'st-row' });
+      row.style.marginBottom = '12px';
+      row.style.display = 'flex';
+      row.style.flexDirection = 'column';
+      row.style.gap = '4px';
+      const label = row.createEl('label', { text: labelText });
+      label.style.fontWeight = '500';
+      return row;
+    };
+
+    const titleRow = makeRow('Title');
+    const titleControls = titleRow.createDiv();
+    titleControls.style.display = 'flex';
+    titleControls.style.gap = '6px';
+    const iconInput = titleControls.createEl('input') as HTMLInputElement;
+    iconInput.type = 'text';
+    iconInput.placeholder = 'Icon';
+    iconInput.title = 'Emoji or short text shown before the title';
+    iconInput.value = node.icon || '';
+    iconInput.style.width = '60px';
+    iconInput.style.padding = '6px';
+    const titleInput = titleControls.createEl('input') as HTMLInputElement;
+    titleInput.type = 'text';
+    // Show the title the node falls back to when none is set
+    titleInput.placeholder = this.getNoteTitle(node) || 'Node title';
+    titleInput.value = node.title || '';
+    titleInput.style.flex = '1';
+    titleInput.style.padding = '6px';
+
+    const descRow = makeRow('Description');
+    const descInput = descRow.createEl('textarea') as HTMLTextAreaElement;
+    descInput.placeholder = 'What is this skill about?';
+    descInput.value = node.description || '';
+    descInput.rows = 3;
+    descInput.style.width = '100%';
+    descInput.style.padding = '6px';
+    descInput.style.resize = 'vertical';
+
+    // immediate-save: empty fields fall back to the defaults
+    const onChange = async () => {
+      this.recordSnapshot();
+      const title = titleInput.value.trim();
+      const icon = iconInput.value.trim();
+      const description = descInput.value.trim();
+      if (title) node.title = title; else delete node.title;
+      if (icon) node.icon = icon; else delete node.icon;
+      if (description) node.description = description; else delete node.description;
+      try { await this.saveNodes(); } catch (e) {}
+      this.render();
+    };
+    titleInput.addEventListener('change', onChange);
+    iconInput.addEventListener('change', onChange);
+    descInput.addEventListener('change', onChange);
+  }
+
+  addNodeStyleRows(modal: HTMLElement, node: SkillNode) {
+    const styleRow = modal.createDiv({ cls: 'st-row' });
+    styleRow.style.marginBottom = '12px';
+    styleRow.style.display = 'flex';
+    styleRow.style.flexDirection = 'column';
+    styleRow.style.gap = '4px';
+    const label = styleRow.createEl('label', { text: 'Style' });
+    label.style.fontWeight = '500';
+    const path = node.brokenLink ? null : this.getNodeFilePath(node);
+    const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+    if (!(file instanceof TFile)) {
+      const hint = styleRow.createEl('div', { text: 'Link a note to give this node its own color, icon, size and label.' });
+      hint.style.fontSize = '0.85em';
+      hint.style.color = 'var(--text-muted)';
+      return;
+    }
+    const style = this.getNodeStyle(node);
+
+    const colorControls = styleRow.createDiv();
+    colorControls.style.display = 'flex';
+    colorControls.style.gap = '6px';
+    colorControls.style.alignItems = 'center';
+    const colorInput = colorControls.createEl('input') as HTMLInputElement;
+    colorInput.type = 'color';
+    colorInput.title = 'Fill color (skilltree-color)';
+    colorInput.style.width = '40px';
+    const colorText = colorControls.createEl('input') as HTMLInputElement;
+    colorText.type = 'text';
+    colorText.placeholder = 'Style color';
+    colorText.value = style.color || '';
+    colorText.style.flex = '1';
+    colorText.style.padding = '6px';
+    const syncPicker = () => {
+      const resolved = colorText.value.trim() ? this.getNodeColorOverride(colorText.value.trim(), 'complete') : null;
+      const rgb = resolved && parseCSSColor(resolved.fill);
+      colorInput.value = rgb ? '#' + [rgb.r, rgb.g, rgb.b].map((c) => c.toString(16).padStart(2, '0')).join('') : '#000000';
+    };
+    syncPicker();
+
+    const iconControls = styleRow.createDiv();
+    iconControls.style.display = 'flex';
+    iconControls.style.gap = '6px';
+    const iconInput = iconControls.createEl('input') as HTMLInputElement;
+    iconInput.type = 'text';
+    iconInput.placeholder = 'Icon: Lucide name or emoji';
+    iconInput.title = 'skilltree-icon, e.g. "sword" or "🔥"';
+    iconInput.value = style.icon || '';
+    iconInput.style.flex = '1';
+    iconInput.style.padding = '6px';
+    const sizeInput = iconControls.createEl('input') as HTMLInputElement;
+    sizeInput.type = 'number';
+    sizeInput.min = String(MIN_NODE_SIZE);
+    sizeInput.max = String(MAX_NODE_SIZE);
+    sizeInput.step = '0.1';
+    sizeInput.placeholder = 'Size';
+    sizeInput.title = 'skilltree-size, 1 = normal';
+    sizeInput.value = style.size !== undefined ? String(style.size) : '';
+    sizeInput.style.width = '70px';
+    sizeInput.style.padding = '6px';
+
+    const labelInput = styleRow.createEl('input') as HTMLInputElement;
+    labelInput.type = 'text';
+    labelInput.placeholder = 'Label on the canvas (skilltree-label)';
+    labelInput.value = style.label || '';
+    labelInput.style.width = '100%';
+    labelInput.style.padding = '6px';
+
+    // immediate-save: the note is the source of these values, the 'changed' handler redraws the node
+    const onChange = async () => {
+      const size = parseFloat(sizeInput.value);
+      await this.writeNodeStyleToFrontmatter(file, {
+        color: colorText.value.trim() || undefined,
+        icon: iconInput.value.trim() || undefined,
+        size: Number.isFinite(size) && size > 0 ? Math.min(MAX_NODE_SIZE, Math.max(MIN_NODE_SIZE, size)) : undefined,
+        label: labelInput.value.trim() || undefined,
+      });
+    };
+    colorInput.addEventListener('change', async () => {
+      colorText.value = colorInput.value;
+      await onChange();
+    });
+    colorText.addEventListener('change', async () => {
+      syncPicker();
+      await onChange();
+    });
+    iconInput.addEventListener('change', onChange);
+    sizeInput.addEventListener('change', onChange);
+    labelInput.addEventListener('change', onChange);
+  }
+
+  // Write style overrides to a note's frontmatter; unset values remove their key
+  async writeNodeStyleToFrontmatter(file: TFile, style: NodeStyleOverrides) {
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const key of Object.keys(NODE_STYLE_KEYS) as (keyof NodeStyleOverrides)[]) {
+          const value = style[key];
+          if (value === undefined) delete frontmatter[NODE_STYLE_KEYS[key]];
+          else frontmatter[NODE_STYLE_KEYS[key]] = value;
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to update node style in frontmatter:', e);
+    }
+  }
+
+  addTaskQueryRow(modal: HTMLElement, node: SkillNode) {
+    const queryRow = modal.createDiv({ cls: 'st-row' });
+    queryRow.style.marginBottom = '12px';
+    queryRow.style.display = 'flex';
+    queryRow.style.flexDirection = 'column';
+    queryRow.style.gap = '4px';
+    const label = queryRow.createEl('label', { text: 'Task Query' });
+    label.style.fontWeight = '500';
+    const queryInput = queryRow.createEl('input') as HTMLInputElement;
+    queryInput.type = 'text';
+    queryInput.placeholder = 'e.g., #skill/typescript "Projects/Web" [[Note]]';
+    queryInput.value = node.taskQuery || '';
+    queryInput.style.width = '100%';
+    queryInput.style.padding = '6px';
+    const hint = queryRow.createEl('div', { text: 'Also show tasks with a tag, in a folder or in a note. Other queries are run as a Dataview source.' });
+    hint.style.fontSize = '0.85em';
+    hint.style.color = 'var(--text-muted)';
+
+    queryInput.addEventListener('change', async () => {
+      const query = queryInput.value.trim();
+      if (query === (node.taskQuery || '')) return;
+      // The query is kept so it can be fixed, but a query that can't run shows no tasks
+      const problem = checkTaskQuery(this.app, query);
+      if (problem) new Notice(`Task query "${query}" can't be run. ${problem}`, 8000);
+      this.recordSnapshot();
+      if (query) node.taskQuery = query; else delete node.taskQuery;
+      this._tasksCache.delete(node.id);
+      this._taskPositions.delete(node.id);
+      if (node.fileLink || node.taskQuery) await this.getNodeTasks(node);
+      try { await this.saveNodes(); } catch (e) {}
+      this.render();
+    });
+  }
+
+  addUnlockRuleRow(modal: HTMLElement, node: SkillNode) {
+    const unlockRow = modal.createDiv({ cls: 'st-row' });
+    unlockRow.style.marginBottom = '12px';
+    unlockRow.style.display = 'flex';
+    unlockRow.style.flexDirection = 'column';
+    unlockRow.style.gap = '4px';
+    const label = unlockRow.createEl('label', { text: 'Unlock when' });
+    label.style.fontWeight = '500';
+    const controls = unlockRow.createDiv();
+    controls.style.display = 'flex';
+    controls.style.gap = '6px';
+    const modeSelect = controls.createEl('select') as HTMLSelectElement;
+    modeSelect.innerHTML = '<option value="all">All prerequisites are complete</option><option value="any">Any prerequisite is complete</option><option value="count">At least N prerequisites are complete</option>';
+    modeSelect.value = node.unlock?.mode || 'all';
+    modeSelect.style.padding = '6px';
+    modeSelect.style.flex = '1';
+    const countInput = controls.createEl('input') as HTMLInputElement;
+    countInput.type = 'number';
+    countInput.min = '1';
+    countInput.value = String(node.unlock?.count ?? 1);
+    countInput.style.width = '60px';
+    countInput.style.padding = '6px';
+    countInput.style.display = modeSelect.value === 'count' ? '' : 'none';
+
+    // immediate-save: update the rule, sync it to the note and recompute states
+    const onChange = async () => {
+      this.recordSnapshot();
+      const mode = modeSelect.value as UnlockRule['mode'];
+      countInput.style.display = mode === 'count' ? '' : 'none';
+      const count = Math.max(1, parseInt(countInput.value, 10) || 1);
+      node.unlock = mode === 'all' ? undefined : (mode === 'count' ? { mode, count } : { mode });
+      await this.writeUnlockRuleToFrontmatter(node);
+      this.applyConnectionStateRules();
+      try { await this.saveNodes(); } catch (e) {}
+      this.render();
+    };
+    modeSelect.addEventListener('change', onChange);
+    countInput.addEventListener('change', onChange);
+  }
+
+  // Unlock rule a note's `skilltree-unlock` sets, undefined for the default "all" (also when the key is missing).
+  // A value that can't be parsed keeps the current rule
+  getUnlockRuleFromFrontmatter(frontmatter: Record<string, any> | undefined, current: UnlockRule | undefined): UnlockRule | undefined {
+    const value = frontmatter?.['skilltree-unlock'];
+    if (value === undefined || value === null) return undefined;
+    const rule = parseUnlockRule(value);
+    if (!rule) return current;
+    return rule.mode === 'all' ? undefined : rule;
+  }
+
+  // Write a node's unlock rule to its note as `skilltree-unlock` (removed when the default "all" applies)
+  async writeUnlockRuleToFrontmatter(node: SkillNode) {
+    if (!node.fileLink) return;
+    let normalizedPath = node.fileLink.trim();
+    if (normalizedPath.startsWith('/')) normalizedPath = normalizedPath.substring(1);
+    if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
+    const file = this.app.vault.getAbstractFileByPath(normalizedPath);
+    if (!file || !(file instanceof TFile)) return;
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        if (!node.unlock || node.unlock.mode === 'all') {
+          delete frontmatter['skilltree-unlock'];
+        } else {
+          frontmatter['skilltree-unlock'] = formatUnlockRule(node.unlock);
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to update skilltree-unlock in frontmatter:', e);
+    }
+  }
+
   openModal(
       modal: HTMLElement,
       options: ModalStyleOptions = {}
@@ -4252,7 +4597,7 @@ export class SkillTreeView extends ItemView {
     header.style.justifyContent = 'space-between';
     header.style.alignItems = 'center';
     header.style.margin = '0 20px 8px 20px';
-    header.createEl('h3', { text: this.getNodeDisplayLabel(node) || 'Node' }).style.margin = '0';
+    header.createEl('h3', { text: `${node.icon ? node.icon + ' ' : ''}${this.getNodeDisplayLabel(node) || 'Node'}` }).style.margin = '0';
     
     // Add note link in bottom right if there's a file link
     const headerRight = header.createDiv();
@@ -4260,11 +4605,18 @@ export class SkillTreeView extends ItemView {
     headerRight.style.flexDirection = 'column';
     headerRight.style.alignItems = 'flex-end';
     
+    if (node.description) {
+      const desc = modal.createEl('p', { text: node.description });
+      desc.style.margin = '0 20px 8px 20px';
+      desc.style.whiteSpace = 'pre-wrap';
+      desc.style.color = 'var(--text-muted)';
+    }
+    
     modal.createEl('span', { text: 'Stats' }).style.fontWeight = '600';
     
     if (node.fileLink) {
       const noteLink = headerRight.createEl('a', { 
-        text: '📄 ' + this.getNodeDisplayLabel(node),
+        text: '📄 ' + (node.fileLink.split('/').pop() || node.fileLink).replace(/\.md$/, ''),
         href: '#' 
       });
       noteLink.style.fontSize = '12px';
@@ -4287,10 +4639,13 @@ export class SkillTreeView extends ItemView {
           // File exists, open it and update frontmatter
           try {
             await this.app.workspace.openLinkText(node.fileLink!, '', false);
-            await this.updateFileFrontmatterWithNodeId(node.fileLink, node.id);
+            await this.syncFrontmatter();
           } catch (err) {
             console.error('Failed to open note:', err);
           }
+        } else if (node.brokenLink) {
+          // Note was deleted, offer to relink it
+          this.openRelinkModal(node);
         } else {
           // File doesn't exist, show creation modal
           this.showCreateFileModal(node);
@@ -4363,6 +4718,36 @@ export class SkillTreeView extends ItemView {
       });
     }
 
+    // EXP earned so far (partial for in-progress nodes)
+    const expProgress = this.getNodeExpProgress(node);
+    const expLine = modal.createEl('div', { text: `EXP: ${expProgress.earned} / ${expProgress.total}` });
+    expLine.style.margin = '4px 20px 8px 20px';
+
+    const completion = this.getNodeTaskCompletion(node.id);
+    if (completion.total > 0) {
+      const percent = Math.round(getTaskProgress(completion) * 100);
+      const tasksLine = modal.createEl('div', { text: `Tasks: ${completion.completed} / ${completion.total} (${percent}%)` });
+      tasksLine.style.margin = '0 20px 8px 20px';
+    }
+
+    if (node.fileLink) {
+      const addTaskBtn = modal.createEl('button', { text: '+ Add task' });
+      addTaskBtn.style.margin = '0 20px 8px 20px';
+      addTaskBtn.style.padding = '4px 10px';
+      addTaskBtn.onclick = () => { this.addTaskToNode(node); };
+    }
+    const openTasks = (this._tasksCache.get(node.id) || []).filter((t) => !t.completed && !t.cancelled);
+    if (openTasks.length > 0) {
+      const completeAllBtn = modal.createEl('button', { text: `✓ Complete all (${openTasks.length})` });
+      completeAllBtn.style.margin = '0 20px 8px 0';
+      completeAllBtn.style.padding = '4px 10px';
+      completeAllBtn.onclick = async () => {
+        await this.completeAllTasksInNote(node);
+        modal.empty();
+        await this.setStatsModalContents(modal, node);
+      };
+    }
+
     // Requirements tree
     const reqHeader = modal.createEl('h4', { text: 'Requirements' });
     reqHeader.style.margin = '8px 20px 4px 20px';
@@ -4371,7 +4756,7 @@ export class SkillTreeView extends ItemView {
     container.style.margin = '0 20px 12px 20px';
 
     // Helper: resolve direct children of a node
-    const childrenOf = (id: number) => {
+    const childrenOf = (id: NodeId) => {
       return this.edges
         .filter((e) => e.to === id && e.from !== null)
         .map((e) => this.nodes.find((n) => n.id === e.from))
@@ -4384,6 +4769,23 @@ export class SkillTreeView extends ItemView {
       return;
     }
 
+    // How many prerequisites are still needed under this node's unlock rule
+    const completedCount = children.filter((c) => c.state === 'complete').length;
+    const required = getRequiredPrerequisiteCount(node.unlock, children.length);
+    const remaining = Math.max(0, required - completedCount);
+    const ruleText = node.unlock?.mode === 'any'
+      ? `any of ${children.length}`
+      : node.unlock?.mode === 'count'
+        ? `${required} of ${children.length}`
+        : `all ${children.length}`;
+    const summary = container.createEl('div', {
+      text: remaining > 0
+        ? `Needs ${ruleText} — ${remaining} more required`
+        : `Needs ${ruleText} — requirements met`
+    });
+    summary.style.fontSize = '0.9em';
+    summary.style.color = remaining > 0 ? 'var(--text-muted)' : 'var(--text-success)';
+
     const ul = container.createEl('ul');
     ul.style.margin = '4px 0 0 12px';
     ul.style.paddingLeft = '12px';
@@ -4391,7 +4793,7 @@ export class SkillTreeView extends ItemView {
     for (const child of children) {
       const li = ul.createEl('li');
       li.style.marginBottom = '6px';
-      const childLabel = li.createEl('span', { text: this.getNodeDisplayLabel(child) || 'Node' });
+      const childLabel = li.createEl('span', { text: `${child.state === 'complete' ? '✅ ' : ''}${this.getNodeDisplayLabel(child) || 'Node'}` });
 
       // grandchildren
       const grandchildren = childrenOf(child.id);
@@ -4417,15 +4819,11 @@ export class SkillTreeView extends ItemView {
     }
   }
 
-  async changeNodeIdFromFrontmatter(node: SkillNode, newId: number): Promise<void> {
+  async changeNodeIdFromFrontmatter(node: SkillNode, newId: NodeId): Promise<void> {
     // Check if new ID is already taken
     if (this.nodes.some(n => n.id === newId && n !== node)) {
-      // Find a unique ID
-      let uniqueId = newId;
-      while (this.nodes.some(n => n.id === uniqueId)) {
-        uniqueId++;
-      }
-      newId = uniqueId;
+      // Generate a fresh unique ID instead
+      newId = generateId(new Set(this.nodes.map(n => n.id)));
       // Update the frontmatter to reflect the adjusted ID
       if (node.fileLink) {
         await this.app.fileManager.processFrontMatter(
@@ -4449,22 +4847,8 @@ export class SkillTreeView extends ItemView {
       if (edge.to === oldId) edge.to = newId;
     });
     
-    // Update frontmatter of connected nodes (but not this node's frontmatter since it was just updated)
-    const connectedNodeIds = new Set<number>();
-    this.edges.forEach(edge => {
-      if (edge.from === newId || edge.to === newId) {
-        connectedNodeIds.add(edge.from);
-        connectedNodeIds.add(edge.to);
-      }
-    });
-    for (const connectedId of connectedNodeIds) {
-      if (connectedId !== newId) {
-        const connectedNode = this.nodes.find(n => n.id === connectedId);
-        if (connectedNode?.fileLink) {
-          await this.updateFileFrontmatterWithNodeId(connectedNode.fileLink, connectedId);
-        }
-      }
-    }
+    // Update frontmatter of connected nodes (this node's note already has the new id)
+    await this.syncFrontmatter({ claim: [newId] });
     
     // Update cached data
     if (this._tasksCache.has(oldId)) {
@@ -4475,13 +4859,6 @@ export class SkillTreeView extends ItemView {
       this._taskPositions.set(newId, this._taskPositions.get(oldId)!);
       this._taskPositions.delete(oldId);
     }
-    if (this._fileWatchers.has(oldId)) {
-      this._fileWatchers.set(newId, this._fileWatchers.get(oldId)!);
-      this._fileWatchers.delete(oldId);
-    }
-    if (this._lastKnownNodeIds.has(node.fileLink!)) {
-      this._lastKnownNodeIds.set(node.fileLink!, newId);
-    }
     
     // Update selected node ID if it was this node
     if (this.selectedNodeId === oldId) {
@@ -4492,15 +4869,11 @@ export class SkillTreeView extends ItemView {
     this.render();
   }
 
-  async changeNodeId(node: SkillNode, newId: number): Promise<void> {
+  async changeNodeId(node: SkillNode, newId: NodeId): Promise<void> {
     // Check if new ID is already taken
     if (this.nodes.some(n => n.id === newId && n !== node)) {
-      // Find a unique ID
-      let uniqueId = newId;
-      while (this.nodes.some(n => n.id === uniqueId)) {
-        uniqueId++;
-      }
-      newId = uniqueId;
+      // Generate a fresh unique ID instead
+      newId = generateId(new Set(this.nodes.map(n => n.id)));
     }
     
     const oldId = node.id;
@@ -4515,27 +4888,8 @@ export class SkillTreeView extends ItemView {
       if (edge.to === oldId) edge.to = newId;
     });
     
-    // Update frontmatter if node has a file link
-    if (node.fileLink) {
-      await this.updateFileFrontmatterWithNodeId(node.fileLink, newId);
-    }
-    
-    // Update frontmatter of nodes connected to this node
-    const connectedNodeIds = new Set<number>();
-    this.edges.forEach(edge => {
-      if (edge.from === newId || edge.to === newId) {
-        connectedNodeIds.add(edge.from);
-        connectedNodeIds.add(edge.to);
-      }
-    });
-    for (const connectedId of connectedNodeIds) {
-      if (connectedId !== newId) {
-        const connectedNode = this.nodes.find(n => n.id === connectedId);
-        if (connectedNode?.fileLink) {
-          await this.updateFileFrontmatterWithNodeId(connectedNode.fileLink, connectedId);
-        }
-      }
-    }
+    // Update frontmatter of this node and the nodes connected to it
+    await this.syncFrontmatter({ claim: [newId] });
     
     // Update cached data
     if (this._tasksCache.has(oldId)) {
@@ -4546,10 +4900,6 @@ export class SkillTreeView extends ItemView {
       this._taskPositions.set(newId, this._taskPositions.get(oldId)!);
       this._taskPositions.delete(oldId);
     }
-    if (this._fileWatchers.has(oldId)) {
-      this._fileWatchers.set(newId, this._fileWatchers.get(oldId)!);
-      this._fileWatchers.delete(oldId);
-    }
     
     // Update selected node ID if it was this node
     if (this.selectedNodeId === oldId) {
@@ -4560,6 +4910,83 @@ export class SkillTreeView extends ItemView {
     this.render();
   }
 
+  // Offer to relink, recreate or unlink a node whose note was deleted
+  openRelinkModal(node: SkillNode) {
+    if (!this.containerEl) return;
+    this.closeAllModals();
+    const modal = this.containerEl.createDiv({ cls: 'skill-tree-node-modal' });
+    this.openModal(modal);
+    this.installOutsideClickHandler(modal);
+    
+    const h3 = modal.createEl('h3', { text: 'Note Missing' });
+    h3.style.marginTop = '0';
+    h3.style.marginBottom = '16px';
+    
+    const p = modal.createEl('p', { text: `"${node.fileLink}" was deleted. Link this node to another note, recreate the note, or remove the link.` });
+    p.style.marginBottom = '16px';
+    
+    const close = () => {
+      modal.remove();
+      this.removeOutsideClickHandler();
+    };
+    
+    const actions = modal.createDiv({ cls: 'st-actions' });
+    actions.style.display = 'flex';
+    actions.style.gap = '8px';
+    actions.style.justifyContent = 'flex-end';
+    actions.style.marginTop = '16px';
+    
+    const cancelBtn = actions.createEl('button', { text: 'Cancel' });
+    cancelBtn.style.padding = '6px 12px';
+    cancelBtn.onclick = close;
+    
+    const unlinkBtn = actions.createEl('button', { text: 'Unlink' });
+    unlinkBtn.style.padding = '6px 12px';
+    unlinkBtn.onclick = async () => {
+      close();
+      this.recordSnapshot();
+      node.fileLink = undefined;
+      delete node.brokenLink;
+      this._tasksCache.delete(node.id);
+      this._taskPositions.delete(node.id);
+      try { await this.saveNodes(); } catch (e) {}
+      this.render();
+    };
+    
+    const recreateBtn = actions.createEl('button', { text: 'Recreate' });
+    recreateBtn.style.padding = '6px 12px';
+    recreateBtn.onclick = () => {
+      close();
+      // The create handler in registerVaultEvents clears the broken link
+      this.showCreateFileModal(node);
+    };
+    
+    const relinkBtn = actions.createEl('button', { text: 'Relink…' });
+    relinkBtn.style.padding = '6px 12px';
+    relinkBtn.style.backgroundColor = 'var(--interactive-accent)';
+    relinkBtn.style.color = 'var(--text-on-accent)';
+    relinkBtn.onclick = () => {
+      close();
+      new NoteSuggestModal(this.app, (file) => { this.relinkNode(node, file); }).open();
+    };
+  }
+
+  // Link a node to another note, taking over the note's frontmatter
+  async relinkNode(node: SkillNode, file: TFile) {
+    this.recordSnapshot();
+    node.fileLink = file.path.replace(/\.md$/, '');
+    delete node.brokenLink;
+    this._tasksCache.delete(node.id);
+    this._taskPositions.delete(node.id);
+    try { await this.saveNodes(); } catch (e) {}
+    await this.syncFrontmatter({ claim: [node.id] });
+    const fileExp = this.app.metadataCache.getFileCache(file)?.frontmatter?.['skilltree-node-exp'];
+    node.exp = typeof fileExp === 'number' ? fileExp : 10;
+    await this.getNodeTasks(node);
+    try { await this.saveNodes(); } catch (e) {}
+    this.render();
+  }
+
   async showCreateFileModal(node: SkillNode) {
     // create an in-DOM modal inside the view so clicks always work
     if (!this.containerEl) {
@@ -4613,22 +5040,21 @@ export class SkillTreeView extends ItemView {
         
         // Create the file with initial content
         // Get default shape based on current style
-        const selectedStyle = this.settings.style || 'gamified';
-        const styleDef = SKILL_TREE_STYLES[selectedStyle];
+        const styleDef = this.getStyleDef();
         let defaultShape = styleDef?.nodeShape || 'circle';
         // Filter out 'star' as it's not a valid node shape (only style shape)
         if (defaultShape === 'star') {
           defaultShape = 'circle';
         }
         const nodeShape = node.shape || defaultShape;
-        const initialContent = `---\nskilltree-node: ${node.id}\nskilltree-node-exp: 10\nshape: ${nodeShape}\n---\n\n# ${this.getNodeDisplayLabel(node)}\n\n`;
+        const initialContent = `---\nskilltree-node: "${node.id}"\nskilltree-node-exp: 10\nshape: ${nodeShape}\n---\n\n# ${this.getNodeDisplayLabel(node)}\n\n`;
         await this.app.vault.create(fullFilePath, initialContent);
         
         // Update node.fileLink to the actual created path
         node.fileLink = fullFilePath.replace(/\.md$/, '');
         
         // Update frontmatter to ensure all fields are set correctly
-        await this.updateFileFrontmatterWithNodeId(node.fileLink!, node.id);
+        await this.syncFrontmatter({ claim: [node.id] });
         
         // Set node exp to 10 (matching the file)
         node.exp = 10;
@@ -4666,6 +5092,15 @@ export class SkillTreeView extends ItemView {
     // If node is unavailable, don't show the state selector at all - just show a message
     this.checkEditorModalUnavailableOption(node, modal)
     
+    // Title, icon and description
+    this.addNodeDetailsRows(modal, node);
+    
+    // Color, icon, size and label overrides kept in the linked note
+    this.addNodeStyleRows(modal, node);
+    
+    // Unlock rule (all / any / N-of-M prerequisites)
+    this.addUnlockRuleRow(modal, node);
+    
     // File link input
     const fileLinkRow = modal.createDiv({ cls: 'st-row' });
     fileLinkRow.style.marginBottom = '12px';
@@ -4721,7 +5156,7 @@ export class SkillTreeView extends ItemView {
       try {
         const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
         const existingNodeId = frontmatter?.['skilltree-node'];
-        if (existingNodeId !== node.id) {
+        if (!idsEqual(existingNodeId, node.id)) {
           // File exists but doesn't have the correct ID - show "Relink" button
           openCreateBtn.textContent = 'Relink';
         } else {
@@ -4754,10 +5189,6 @@ export class SkillTreeView extends ItemView {
       this.recordSnapshot();
       const oldFileLink = node.fileLink;
       node.fileLink = path;
-      if (oldFileLink !== node.fileLink) {
-        if (oldFileLink) this._lastKnownNodeIds.delete(oldFileLink);
-        this._lastKnownNodeIds.set(node.fileLink, node.id);
-      }
 
       const file = this.app.vault.getAbstractFileByPath(normalizedPath);
       if (file && file instanceof TFile) {
@@ -4766,10 +5197,10 @@ export class SkillTreeView extends ItemView {
           const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
           const existingNodeId = frontmatter?.['skilltree-node'];
           
-          if (existingNodeId === node.id) {
+          if (idsEqual(existingNodeId, node.id)) {
             // File is already linked to this node - just open it
             await this.app.workspace.openLinkText(path, '', false);
-            await this.updateFileFrontmatterWithNodeId(path, node.id);
+            await this.syncFrontmatter({ claim: [node.id] });
             // Load exp from file frontmatter
             try {
               const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
@@ -4785,13 +5216,7 @@ export class SkillTreeView extends ItemView {
           } else {
             // File exists but doesn't have the correct ID (or has a different ID)
             // Relink the file to this node - update file frontmatter to match node ID
-            // Update _lastKnownNodeIds first to prevent watcher from creating a loop
-            let normalizedPath = path.trim();
-            if (normalizedPath.startsWith('/')) normalizedPath = normalizedPath.substring(1);
-            if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
-            this._lastKnownNodeIds.set(normalizedPath, node.id);
-            
-            await this.updateFileFrontmatterWithNodeId(path, node.id);
+            await this.syncFrontmatter({ claim: [node.id] });
             await this.app.workspace.openLinkText(path, '', false);
             // Load exp from file frontmatter
             try {
@@ -4809,7 +5234,7 @@ export class SkillTreeView extends ItemView {
         } catch (err) {
           console.error('Failed to check file frontmatter:', err);
           // Fallback: just open the file and try to link it
-          await this.updateFileFrontmatterWithNodeId(path, node.id);
+          await this.syncFrontmatter({ claim: [node.id] });
           await this.app.workspace.openLinkText(path, '', false);
           // Default to 10 if we can't read exp
           node.exp = 10;
@@ -4830,23 +5255,14 @@ export class SkillTreeView extends ItemView {
       const newFileLink = fileLinkInput.value.trim() || undefined;
       node.fileLink = newFileLink;
       
-      // Clean up old file watcher if file link changed
+      // Forget the old note's tasks if file link changed
       if (oldFileLink !== newFileLink) {
-        const oldWatcher = this._fileWatchers.get(node.id);
-        if (oldWatcher && typeof oldWatcher === 'function') {
-          oldWatcher();
-          this._fileWatchers.delete(node.id);
-        }
+        delete node.brokenLink;
         this._tasksCache.delete(node.id);
         this._taskPositions.delete(node.id);
-        // Update last known node IDs map
-        if (oldFileLink) {
-          this._lastKnownNodeIds.delete(oldFileLink);
-        }
         if (newFileLink) {
-          this._lastKnownNodeIds.set(newFileLink, node.id);
           // Update frontmatter when linking a new file
-          await this.updateFileFrontmatterWithNodeId(newFileLink, node.id);
+          await this.syncFrontmatter({ claim: [node.id] });
           // Load exp from file frontmatter
           try {
             let normalizedPath = newFileLink.trim();
@@ -4890,23 +5306,14 @@ export class SkillTreeView extends ItemView {
       const newFileLink = fileLinkInput.value.trim() || undefined;
       node.fileLink = newFileLink;
       
-      // Clean up old file watcher if file link changed
+      // Forget the old note's tasks if file link changed
       if (oldFileLink !== newFileLink) {
-        const oldWatcher = this._fileWatchers.get(node.id);
-        if (oldWatcher && typeof oldWatcher === 'function') {
-          oldWatcher();
-          this._fileWatchers.delete(node.id);
-        }
+        delete node.brokenLink;
         this._tasksCache.delete(node.id);
         this._taskPositions.delete(node.id);
-        // Update last known node IDs map
-        if (oldFileLink) {
-          this._lastKnownNodeIds.delete(oldFileLink);
-        }
         if (newFileLink) {
-          this._lastKnownNodeIds.set(newFileLink, node.id);
           // Update frontmatter when linking a new file
-          await this.updateFileFrontmatterWithNodeId(newFileLink, node.id);
+          await this.syncFrontmatter({ claim: [node.id] });
           // Load exp from file frontmatter
           try {
             let normalizedPath = newFileLink.trim();
@@ -4943,11 +5350,19 @@ export class SkillTreeView extends ItemView {
       this.render();
     });
     
+    // Tasks pulled from across the vault
+    this.addTaskQueryRow(modal, node);
+    
     const actions = modal.createDiv({ cls: 'st-actions' });
     actions.style.display = 'flex';
     actions.style.gap = '8px';
     actions.style.justifyContent = 'flex-end';
     actions.style.marginTop = '16px';
+    if (node.fileLink) {
+      const addTaskBtn = actions.createEl('button', { text: 'Add Task' });
+      addTaskBtn.style.padding = '6px 12px';
+      addTaskBtn.onclick = () => { this.addTaskToNode(node); };
+    }
     const delBtn = actions.createEl('button', { text: 'Delete' });
     delBtn.style.padding = '6px 12px';
     const closeBtn = actions.createEl('button', { text: 'Close' });
@@ -5026,17 +5441,11 @@ export class SkillTreeView extends ItemView {
     createBtn.onclick = async () => {
       const name = input.value.trim();
       if (name) {
-        await this.createTree(name);
-        // Find and update tree selector
-        const treeSelect = this.containerEl?.querySelector('select') as HTMLSelectElement;
-        if (treeSelect) {
-          this.updateTreeSelector(treeSelect);
-          treeSelect.value = name;
-        }
-        await this.switchTree(name);
-        this.render();
+        const file = await this.createTree(name);
+        if (!file) return;
         modal.remove();
         this.removeOutsideClickHandler();
+        await this.switchTree(file.path);
       }
     };
     
@@ -5099,6 +5508,197 @@ export class SkillTreeView extends ItemView {
     });
   }
 
+  // Returns the node path that an edge from -> to would close into a cycle, or null if the edge is safe
+  getCycleForEdge(from: NodeId, to: NodeId, ignoreEdgeId?: NodeId): NodeId[] | null {
+    return findCycleForNewEdge(this.edges, from, to, ignoreEdgeId);
+  }
+
+  // Format node ids as "A → B → C" using node labels
+  formatNodePath(nodeIds: NodeId[]): string {
+    return nodeIds
+      .map((id) => {
+        const node = this.nodes.find((n) => n.id === id);
+        return (node && this.getNodeDisplayLabel(node)) || `Node ${id}`;
+      })
+      .join(' → ');
+  }
+
+  // Explain why a connection was refused. `path` runs from the new edge's parent back to its child.
+  openCycleErrorModal(path: NodeId[]) {
+    const loop = this.formatNodePath([...path, path[0]]);
+    this.openErrorModal(`This connection would create a dependency cycle (${loop}). A node cannot be a prerequisite of itself, so the connection was not made.`);
+  }
+
+  // List every dependency cycle in the current tree, with a way to break each one
+  async openValidateTreeModal() {
+    if (!this.containerEl) return;
+    // Refresh the frontmatter conflicts, including notes outside the tree claiming its nodes
+    await this.syncFrontmatter({ scanVault: true });
+    this.closeAllModals();
+    const modal = this.containerEl.createDiv({ cls: 'skill-tree-node-modal' });
+    this.openModal(modal);
+    this.installOutsideClickHandler(modal);
+
+    const h3 = modal.createEl('h3', { text: 'Validate tree' });
+    h3.style.marginTop = '0';
+    h3.style.marginBottom = '16px';
+
+    const cycles = findCycles(this.edges);
+    if (cycles.length === 0) {
+      modal.createEl('p', { text: 'No dependency cycles found.' });
+    } else {
+      modal.createEl('p', {
+        text: `Found ${cycles.length} dependency cycle${cycles.length === 1 ? '' : 's'}. Nodes in a cycle can never be unlocked; remove one connection from each cycle to fix it.`
+      });
+      const ul = modal.createEl('ul');
+      ul.style.paddingLeft = '16px';
+      for (const cycle of cycles) {
+        const li = ul.createEl('li');
+        li.style.marginBottom = '8px';
+        li.createEl('div', { text: this.formatNodePath([...cycle.nodeIds, cycle.nodeIds[0]]) });
+        const row = li.createDiv();
+        row.style.display = 'flex';
+        row.style.gap = '6px';
+        row.style.marginTop = '4px';
+        const showBtn = row.createEl('button', { text: 'Show' });
+        showBtn.style.padding = '4px 8px';
+        showBtn.onclick = () => {
+          const node = this.nodes.find((n) => n.id === cycle.nodeIds[0]);
+          if (!node) return;
+          this.selectedNodeId = node.id;
+          this.centerAndZoomOnPoint(node.x, node.y);
+          this.render();
+        };
+        // The last edge is the one that closes the cycle
+        const closingEdgeId = cycle.edgeIds[cycle.edgeIds.length - 1];
+        const closingEdge = this.edges.find((e) => e.id === closingEdgeId);
+        const removeBtn = row.createEl('button', {
+          text: closingEdge ? `Remove ${this.formatNodePath([closingEdge.from as NodeId, closingEdge.to as NodeId])}` : 'Remove connection'
+        });
+        removeBtn.style.padding = '4px 8px';
+        removeBtn.onclick = async () => {
+          this.recordSnapshot();
+          this.edges = this.edges.filter((e) => e.id !== closingEdgeId);
+          this.applyConnectionStateRules();
+          try { await this.saveNodes(); } catch (e) {}
+          this.render();
+          // Re-run validation on the updated tree
+          this.openValidateTreeModal();
+        };
+      }
+    }
+
+    // Notes and nodes the frontmatter sync could not match up
+    const conflicts = this._frontmatterConflicts;
+    if (conflicts.length > 0) {
+      const h4 = modal.createEl('h4', { text: 'Note conflicts' });
+      h4.style.margin = '16px 0 8px 0';
+      modal.createEl('p', {
+        text: `${conflicts.length} note${conflicts.length === 1 ? '' : 's'} could not be synced. Their frontmatter is left as is until the conflict is resolved.`
+      });
+      const ul = modal.createEl('ul');
+      ul.style.paddingLeft = '16px';
+      for (const conflict of conflicts) {
+        const li = ul.createEl('li');
+        li.style.marginBottom = '8px';
+        li.createEl('div', { text: describeFrontmatterConflict(conflict, (id) => this.formatNodePath([id])) });
+        const row = li.createDiv();
+        row.style.display = 'flex';
+        row.style.gap = '6px';
+        row.style.marginTop = '4px';
+        const nodeId = conflict.type === 'shared-note' ? conflict.nodeIds[0] : conflict.nodeId;
+        const showBtn = row.createEl('button', { text: 'Show' });
+        showBtn.style.padding = '4px 8px';
+        showBtn.onclick = () => {
+          const node = this.nodes.find((n) => n.id === nodeId);
+          if (!node) return;
+          this.selectedNodeId = node.id;
+          this.centerAndZoomOnPoint(node.x, node.y);
+          this.render();
+        };
+        if (conflict.type === 'id-mismatch') {
+          // The node's id wins, as when linking the note by hand
+          const claimBtn = row.createEl('button', { text: 'Use this node\'s id' });
+          claimBtn.style.padding = '4px 8px';
+          claimBtn.onclick = async () => {
+            await this.syncFrontmatter({ claim: [conflict.nodeId] });
+            this.openValidateTreeModal();
+          };
+        }
+      }
+    }
+
+    const actions = modal.createDiv({ cls: 'st-actions' });
+    actions.style.display = 'flex';
+    actions.style.justifyContent = 'flex-end';
+    actions.style.marginTop = '16px';
+    const closeBtn = actions.createEl('button', { text: 'Close' });
+    closeBtn.style.padding = '6px 12px';
+    closeBtn.onclick = () => {
+      modal.remove();
+      this.removeOutsideClickHandler();
+    };
+  }
+
+  // Timeline of this tree's progress: EXP per day and every logged change, newest first
+  async openHistoryModal() {
+    if (!this.containerEl) return;
+    this.closeAllModals();
+    const modal = this.containerEl.createDiv({ cls: 'skill-tree-node-modal' });
+    this.openModal(modal, { maxHeight: '70%', overflowY: 'auto' });
+    this.installOutsideClickHandler(modal);
+
+    const h3 = modal.createEl('h3', { text: 'History' });
+    h3.style.marginTop = '0';
+    h3.style.marginBottom = '16px';
+
+    if (this.history.length === 0) {
+      modal.createEl('p', { text: 'Nothing has been logged yet. Completing nodes and tasks adds entries here.' });
+    } else {
+      const days = summarizeHistoryByDay(this.history);
+      const dayList = modal.createDiv();
+      dayList.style.marginBottom = '12px';
+      for (const [day, exp] of days.slice(0, 14)) {
+        const row = dayList.createDiv({ text: `${day}: ${exp >= 0 ? '+' : ''}${exp} EXP` });
+        row.style.fontSize = '0.9em';
+      }
+
+      const ul = modal.createEl('ul');
+      ul.style.paddingLeft = '16px';
+      for (const entry of [...this.history].reverse().slice(0, 200)) {
+        const node = this.nodes.find((n) => n.id === entry.nodeId);
+        const label = (node && this.getNodeDisplayLabel(node)) || (node ? 'Node' : 'Deleted node');
+        const li = ul.createEl('li');
+        li.style.marginBottom = '6px';
+        const change = entry.to ? `${entry.from || 'new'} → ${entry.to}` : 'progress';
+        const exp = entry.exp !== 0 ? `, ${entry.exp > 0 ? '+' : ''}${entry.exp} EXP` : '';
+        li.createEl('div', { text: `${label}: ${change}${exp}` });
+        const meta = li.createEl('div', { text: `${new Date(entry.time).toLocaleString()} · ${entry.source}` });
+        meta.style.fontSize = '0.8em';
+        meta.style.color = 'var(--text-muted)';
+        if (node) {
+          li.style.cursor = 'pointer';
+          li.onclick = () => {
+            this.selectedNodeId = node.id;
+            this.centerAndZoomOnPoint(node.x, node.y);
+            this.render();
+          };
+        }
+      }
+    }
+
+    const actions = modal.createDiv({ cls: 'st-actions' });
+    actions.style.display = 'flex';
+    actions.style.justifyContent = 'flex-end';
+    actions.style.marginTop = '16px';
+    const closeBtn = actions.createEl('button', { text: 'Close' });
+    closeBtn.style.padding = '6px 12px';
+    closeBtn.onclick = () => {
+      modal.remove();
+      this.removeOutsideClickHandler();
+    };
+  }
+
   async openDeleteConfirmationModal(treeName: string, onConfirm: () => void) {
     // create an in-DOM modal inside the view so clicks always work
     if (!this.containerEl) {
@@ -5262,13 +5862,11 @@ export class SkillTreeView extends ItemView {
     this.closeTaskChildrenModal(); // Close task modal if open
     
     // Update frontmatter for nodes that were connected to the deleted node
-    for (const affectedNode of affectedNodes) {
-      await this.updateFileFrontmatterWithNodeId(affectedNode.fileLink!, affectedNode.id);
-    }
+    if (affectedNodes.length > 0) await this.syncFrontmatter();
   }
   
   // Show modal with task children
-  showTaskChildrenModal(node: SkillNode, taskIndex: number, task: any) {
+  showTaskChildrenModal(node: SkillNode, taskIndex: number, task: TaskItem) {
     // Close existing modal if any
     this.closeTaskChildrenModal();
     
@@ -5307,18 +5905,44 @@ export class SkillTreeView extends ItemView {
     }
     
     // Add title
-    const title = modal.createEl('div', { text: 'Child Tasks' });
+    const title = modal.createEl('div', { text: 'Subtasks' });
     title.style.fontWeight = '600';
     title.style.marginBottom = '8px';
     title.style.fontSize = '14px';
     
-    // Add child tasks list
-    const list = modal.createEl('div');
+    // Expandable tree of all subtasks, at any depth
+    this.renderTaskTree(modal, node, tasks, task.children, () => {
+      // Re-open with the reloaded tasks so derived parent completion is up to date
+      const refreshed = (this._tasksCache.get(node.id) || [])[taskIndex];
+      if (refreshed && this._taskChildrenModal === modal) this.showTaskChildrenModal(node, taskIndex, refreshed);
+    });
+    
+    // Add close button
+    const closeBtn = modal.createEl('button', { text: 'Close' });
+    closeBtn.style.marginTop = '8px';
+    closeBtn.style.width = '100%';
+    closeBtn.style.padding = '6px';
+    closeBtn.style.cursor = 'pointer';
+    closeBtn.onclick = () => this.closeTaskChildrenModal();
+    
+    document.body.appendChild(modal);
+    this._taskChildrenModal = modal;
+  }
+  
+  // Nested list of tasks with expand/collapse toggles and a checkbox per task
+  renderTaskTree(container: HTMLElement, node: SkillNode, tasks: TaskItem[], taskIndexes: number[], onToggled: () => void, depth: number = 0) {
+    const list = container.createEl('div');
     list.style.display = 'flex';
     list.style.flexDirection = 'column';
     list.style.gap = '4px';
+    if (depth > 0) list.style.marginLeft = '16px';
+    const today = moment().format('YYYY-MM-DD');
     
-    for (const childTask of childTasks) {
+    for (const index of taskIndexes) {
+      const childTask = tasks[index];
+      if (!childTask) continue;
+      const hasChildren = childTask.children && childTask.children.length > 0;
+      
       const item = list.createEl('div');
       item.style.display = 'flex';
       item.style.alignItems = 'center';
@@ -5334,37 +5958,55 @@ export class SkillTreeView extends ItemView {
         item.style.backgroundColor = 'transparent';
       });
       
+      // Expand/collapse toggle for tasks with subtasks
+      const toggle = item.createEl('span', { text: hasChildren ? '▾' : '' });
+      toggle.style.width = '10px';
+      toggle.style.fontSize = '11px';
+      toggle.style.color = 'var(--text-muted)';
+      
       // Checkbox
       const checkbox = item.createEl('input', { type: 'checkbox' });
       checkbox.checked = childTask.completed || false;
       checkbox.style.cursor = 'pointer';
+      // Done through its subtasks: toggling the open line in the note would check it, so uncheck a subtask instead
+      if (childTask.completedByChildren) {
+        checkbox.disabled = true;
+        checkbox.style.cursor = 'default';
+        checkbox.title = 'Done because all subtasks are done';
+      }
       checkbox.addEventListener('change', async () => {
-        const childTaskIndex = tasks.indexOf(childTask);
-        if (childTaskIndex >= 0) {
-          await this.toggleTaskCompletion(node, childTaskIndex);
-        }
+        await this.toggleTaskCompletion(node, index);
+        onToggled();
       });
       
       // Task text
-      const text = item.createEl('span', { text: childTask.text || 'Task' });
+      const text = item.createEl('span', { text: this.getTaskDisplayText(childTask) || 'Task' });
       text.style.flex = '1';
       text.style.fontSize = '13px';
-      if (childTask.completed) {
+      const details = this.getTaskDetailsText(childTask);
+      if (details) {
+        const detailsEl = item.createEl('span', { text: details });
+        detailsEl.style.fontSize = '11px';
+        detailsEl.style.color = isTaskOverdue(childTask, today) ? 'var(--text-error)' : 'var(--text-muted)';
+      }
+      if (childTask.completed || childTask.cancelled) {
         text.style.textDecoration = 'line-through';
         text.style.opacity = '0.6';
+      } else if (childTask.statusType === 'in-progress') {
+        text.style.color = TASK_STATUS_COLORS['in-progress'];
+      }
+      
+      if (hasChildren) {
+        const childContainer = list.createDiv();
+        this.renderTaskTree(childContainer, node, tasks, childTask.children, onToggled, depth + 1);
+        toggle.onclick = (e) => {
+          e.stopPropagation();
+          const collapsed = childContainer.style.display === 'none';
+          childContainer.style.display = collapsed ? '' : 'none';
+          toggle.textContent = collapsed ? '▾' : '▸';
+        };
       }
     }
-    
-    // Add close button
-    const closeBtn = modal.createEl('button', { text: 'Close' });
-    closeBtn.style.marginTop = '8px';
-    closeBtn.style.width = '100%';
-    closeBtn.style.padding = '6px';
-    closeBtn.style.cursor = 'pointer';
-    closeBtn.onclick = () => this.closeTaskChildrenModal();
-    
-    document.body.appendChild(modal);
-    this._taskChildrenModal = modal;
   }
   
   // Close task children modal
@@ -0,0 +1,199 @@
+import { NodeId, NodeState, SkillEdge, SkillNode, UnlockRule } from './interfaces';
+
+/**
+ * Task completion counts for a single node.
+ */
+export interface TaskCompletion {
+  total: number;
+  completed: number;
+}
+
+/**
+ * Optional rules of {@link computeNodeStates}.
+ */
+export interface StateEngineOptions {
+  /**
+   * Fraction of its tasks (0-1) an unconnected node needs done to be `in-progress`
+   * instead of `unavailable`. Undefined or 0 disables it.
+   */
+  inProgressThreshold?: number;
+}
+
+/**
+ * Share of a node's tasks that are done, from 0 to 1 (0 without tasks).
+ * @param completion The node's task completion.
+ */
+export function getTaskProgress(completion: TaskCompletion | undefined): number {
+  if (!completion || completion.total <= 0) return 0;
+  return Math.min(1, completion.completed / completion.total);
+}
+
+/**
+ * A node whose state differs between the input and the computed result.
+ */
+export interface StateTransition {
+  nodeId: NodeId;
+  from: NodeState | undefined;
+  to: NodeState;
+}
+
+/**
+ * Output of {@link computeNodeStates}.
+ */
+export interface StateEngineResult {
+  /** Computed state for every node that has one */
+  states: Map<NodeId, NodeState>;
+  /** Nodes whose state changed, in node order */
+  transitions: StateTransition[];
+}
+
+/**
+ * Number of complete prerequisites a node needs under its unlock rule.
+ * @param rule The node's unlock rule; undefined means all prerequisites.
+ * @param total Number of prerequisites the node has.
+ */
+export function getRequiredPrerequisiteCount(rule: UnlockRule | undefined, total: number): number {
+  if (total === 0) return 0;
+  switch (rule?.mode) {
+    case 'any':
+      return 1;
+    case 'count':
+      return Math.max(1, Math.min(total, Math.floor(rule.count ?? total)));
+    case 'all':
+    default:
+      return total;
+  }
+}
+
+/**
+ * Parse an unlock rule from a frontmatter value.
+ * Accepts `all`, `any`, a number N (N-of-M) or strings like `2 of 4` / `2`.
+ * @param value Raw frontmatter value of `skilltree-unlock`.
+ * @returns The rule, or undefined if the value is missing or not understood.
+ */
+export function parseUnlockRule(value: unknown): UnlockRule | undefined {
+  if (typeof value === 'number' && value > 0) {
+    return { mode: 'count', count: Math.floor(value) };
+  }
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().toLowerCase();
+  if (text === 'all' || text === 'all-of') return { mode: 'all' };
+  if (text === 'any' || text === 'any-of') return { mode: 'any' };
+  const countMatch = text.match(/^(\d+)(\s*(of|\/)\s*\d+)?$/);
+  if (countMatch && parseInt(countMatch[1], 10) > 0) {
+    return { mode: 'count', count: parseInt(countMatch[1], 10) };
+  }
+  return undefined;
+}
+
+/**
+ * Format an unlock rule for frontmatter (inverse of {@link parseUnlockRule}).
+ * @param rule The rule to format.
+ */
+export function formatUnlockRule(rule: UnlockRule): string | number {
+  if (rule.mode === 'count') return rule.count ?? 1;
+  return rule.mode;
+}
+
+/**
+ * Compute node states from the tree's connections and task completion.
+ *
+ * Edges point from a child (prerequisite) to its parent. The rules are:
+ * 1. A node without any connection is `unavailable`, unless all of its tasks
+ *    are complete (then `complete`) or it is already `complete`. With an
+ *    `inProgressThreshold`, it is `in-progress` once at least that share of its
+ *    tasks is done.
+ * 2. A disconnected node that still has children keeps its state.
+ * 3. A node with a parent is `in-progress`, and that parent and all of its
+ *    ancestors are `unavailable`.
+ * 4. A node with children is `in-progress` once enough children are complete
+ *    according to its {@link UnlockRule} (all of them by default), otherwise
+ *    `unavailable`.
+ *
+ * A `complete` node is never downgraded by rules 1, 3 or 4, so manual completion
+ * is preserved. Cycles are tolerated.
+ *
+ * The inputs are not modified.
+ * @param nodes Nodes with their current state.
+ * @param edges Edges between the nodes; edges with missing endpoints are ignored by rules 3 and 4.
+ * @param tasks Task completion per node id. Nodes without an entry have no tasks.
+ * @param options Optional rules, see {@link StateEngineOptions}.
+ */
+export function computeNodeStates(
+  nodes: readonly SkillNode[],
+  edges: readonly SkillEdge[],
+  tasks: ReadonlyMap<NodeId, TaskCompletion> = new Map(),
+  options: StateEngineOptions = {}
+): StateEngineResult {
+  const state = new Map<NodeId, NodeState | undefined>();
+  for (const n of nodes) state.set(n.id, n.state);
+  const isComplete = (id: NodeId) => state.get(id) === 'complete';
+
+  // parentsMap: nodes this node points TO (arrow points to parent)
+  // childrenMap: nodes that point TO this node (arrow comes from children)
+  const parentsMap = new Map<NodeId, NodeId[]>();
+  const childrenMap = new Map<NodeId, NodeId[]>();
+  const connected = new Set<NodeId>();
+  for (const ee of edges) {
+    if (ee.from != null) connected.add(ee.from);
+    if (ee.to != null) connected.add(ee.to);
+    if (ee.from == null || ee.to == null || !state.has(ee.from) || !state.has(ee.to)) continue;
+    childrenMap.set(ee.to, [...(childrenMap.get(ee.to) || []), ee.from]);
+    parentsMap.set(ee.from, [...(parentsMap.get(ee.from) || []), ee.to]);
+  }
+
+  // Rules 1 & 2
+  for (const n of nodes) {
+    if (connected.has(n.id) || (childrenMap.get(n.id) || []).length > 0) continue;
+    const completion = tasks.get(n.id);
+    const allTasksComplete = !!completion && completion.total > 0 && completion.completed >= completion.total;
+    const threshold = options.inProgressThreshold || 0;
+    const pastThreshold = threshold > 0 && !!completion && completion.completed > 0 && getTaskProgress(completion) >= threshold;
+    if (allTasksComplete) {
+      state.set(n.id, 'complete');
+    } else if (!isComplete(n.id)) {
+      state.set(n.id, pastThreshold ? 'in-progress' : 'unavailable');
+    }
+  }
+
+  // Rule 3
+  const markAncestorsUnavailable = (startId: NodeId) => {
+    const visited = new Set<NodeId>();
+    const stack = [startId];
+    while (stack.length > 0) {
+      const id = stack.pop() as NodeId;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      if (!isComplete(id)) state.set(id, 'unavailable');
+      stack.push(...(parentsMap.get(id) || []));
+    }
+  };
+  for (const ee of edges) {
+    if (ee.from == null || ee.to == null) continue;
+    if (state.has(ee.from) && !isComplete(ee.from)) {
+      state.set(ee.from, 'in-progress');
+    }
+    if (state.has(ee.to)) {
+      markAncestorsUnavailable(ee.to);
+    }
+  }
+
+  // Rule 4, applied last so it can override rule 3
+  for (const n of nodes) {
+    const children = childrenMap.get(n.id) || [];
+    if (children.length === 0 || isComplete(n.id)) continue;
+    const completed = children.filter(isComplete).length;
+    const required = getRequiredPrerequisiteCount(n.unlock, children.length);
+    state.set(n.id, completed >= required ? 'in-progress' : 'unavailable');
+  }
+
+  const states = new Map<NodeId, NodeState>();
+  const transitions: StateTransition[] = [];
+  for (const n of nodes) {
+    const next = state.get(n.id);
+    if (next === undefined) continue;
+    states.set(n.id, next);
+    if (next !== n.state) transitions.push({ nodeId: n.id, from: n.state, to: next });
+  }
+  return { states, transitions };
+}
@@ -0,0 +1,144 @@
+import { NodeColors, SKILL_TREE_STYLES, SkillTreeSettings, SkillTreeStyle } from './interfaces';
+
+export const NODE_SHAPE_OPTIONS: NonNullable<SkillTreeStyle['nodeShape']>[] = ['circle', 'square', 'hexagon', 'star', 'diamond'];
+export const EDGE_STYLE_OPTIONS: NonNullable<SkillTreeStyle['edgeStyle']>[] = ['straight', 'wavy', 'gradient'];
+export const NODE_COLOR_STATES: (keyof NodeColors)[] = ['complete', 'inProgress', 'unavailable', 'error'];
+
+/**
+ * Built-in and user-defined styles by key. A custom style never shadows a built-in one.
+ * @param settings Plugin settings holding `customStyles`.
+ */
+export function getSkillTreeStyles(settings: Pick<SkillTreeSettings, 'customStyles'>): Record<string, SkillTreeStyle> {
+  const styles = { ...SKILL_TREE_STYLES };
+  for (const [key, style] of Object.entries(settings.customStyles || {})) {
+    if (!styles[key]) styles[key] = style;
+  }
+  return styles;
+}
+
+/**
+ * Look up a built-in or custom style.
+ * @param settings Plugin settings.
+ * @param key Style key, e.g. `settings.style`.
+ */
+export function getSkillTreeStyle(settings: Pick<SkillTreeSettings, 'customStyles'>, key: string): SkillTreeStyle | undefined {
+  return SKILL_TREE_STYLES[key] || settings.customStyles?.[key];
+}
+
+/**
+ * Key of the built-in style a style was cloned from (the key itself for built-in styles).
+ * Effects tied to a built-in style, like the gamified animations, follow it.
+ * @param settings Plugin settings.
+ * @param key Style key.
+ */
+export function getBaseStyleKey(settings: Pick<SkillTreeSettings, 'customStyles'>, key: string): string {
+  return SKILL_TREE_STYLES[key] ? key : settings.customStyles?.[key]?.base || key;
+}
+
+/**
+ * Copy a style under a new key that is unused by built-in and custom styles.
+ * @param settings Plugin settings; the copy is not added to them.
+ * @param key Key of the style to copy.
+ * @returns The new key and style, or null if there is no such style.
+ */
+export function cloneSkillTreeStyle(settings: Pick<SkillTreeSettings, 'customStyles'>, key: string): { key: string; style: SkillTreeStyle } | null {
+  const source = getSkillTreeStyle(settings, key);
+  if (!source) return null;
+  const style: SkillTreeStyle = JSON.parse(JSON.stringify(source));
+  style.name = `${source.name} (copy)`;
+  style.base = getBaseStyleKey(settings, key);
+  return { key: uniqueStyleKey(settings, style.name), style };
+}
+
+function uniqueStyleKey(settings: Pick<SkillTreeSettings, 'customStyles'>, name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'style';
+  const taken = getSkillTreeStyles(settings);
+  let key = `custom-${slug}`;
+  for (let i = 2; taken[key]; i++) key = `custom-${slug}-${i}`;
+  return key;
+}
+
+/**
+ * `#rrggbb` form of a hex color, as color pickers need it. Other colors are returned as is.
+ * @param color `#rgb` or `#rrggbb`.
+ */
+export function toHexColor(color: string): string {
+  const short = color.trim().match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toLowerCase() : color.trim();
+}
+
+/**
+ * Serialize custom styles for sharing.
+ * @param styles Styles by key.
+ */
+export function exportSkillTreeStyles(styles: Record<string, SkillTreeStyle>): string {
+  return JSON.stringify(styles, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isColorPair(value: unknown): value is { fill: string; stroke: string } {
+  return isRecord(value) && typeof value.fill === 'string' && typeof value.stroke === 'string';
+}
+
+function checkStyle(value: unknown, label: string): SkillTreeStyle {
+  if (!isRecord(value)) throw new Error(`${label} is not a style object`);
+  if (typeof value.name !== 'string' || !value.name.trim()) throw new Error(`${label} has no name`);
+  if (typeof value.backgroundColor !== 'string') throw new Error(`${label} has no backgroundColor`);
+  if (typeof value.edgeColor !== 'string') throw new Error(`${label} has no edgeColor`);
+  const colors = isRecord(value.nodeColors) ? value.nodeColors : {};
+  const nodeColors = {} as NodeColors;
+  for (const state of NODE_COLOR_STATES) {
+    const pair = colors[state];
+    if (!isColorPair(pair)) throw new Error(`${label} has no fill and stroke for ${state} nodes`);
+    nodeColors[state] = { fill: pair.fill, stroke: pair.stroke };
+  }
+  const { nodeShape, edgeStyle, base } = value;
+  if (nodeShape !== undefined && !(NODE_SHAPE_OPTIONS as unknown[]).includes(nodeShape)) throw new Error(`${label} has an unknown nodeShape "${nodeShape}"`);
+  if (edgeStyle !== undefined && !(EDGE_STYLE_OPTIONS as unknown[]).includes(edgeStyle)) throw new Error(`${label} has an unknown edgeStyle "${edgeStyle}"`);
+
+  const style: SkillTreeStyle = {
+    name: value.name.trim(),
+    backgroundColor: value.backgroundColor,
+    nodeColors,
+    edgeColor: value.edgeColor,
+  };
+  if (value.edgeGlow !== undefined) style.edgeGlow = !!value.edgeGlow;
+  if (nodeShape !== undefined) style.nodeShape = nodeShape as SkillTreeStyle['nodeShape'];
+  if (value.animated !== undefined) style.animated = !!value.animated;
+  if (edgeStyle !== undefined) style.edgeStyle = edgeStyle as SkillTreeStyle['edgeStyle'];
+  if (typeof base === 'string' && SKILL_TREE_STYLES[base]) style.base = base;
+  return style;
+}
+
+/**
+ * Read styles exported by {@link exportSkillTreeStyles}, or a single style object.
+ * Styles whose key is taken by a built-in style get a new key; other keys are
+ * kept, so importing a style again updates it.
+ * @param settings Plugin settings, for picking free keys.
+ * @param json The JSON text.
+ * @returns The styles by key.
+ * @throws Error describing the first invalid style.
+ */
+export function importSkillTreeStyles(settings: Pick<SkillTreeSettings, 'customStyles'>, json: string): Record<string, SkillTreeStyle> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Not valid JSON');
+  }
+  if (!isRecord(data)) throw new Error('Expected an object of styles');
+  const entries: [string | null, unknown][] = typeof data.name === 'string' && data.nodeColors ? [[null, data]] : Object.entries(data);
+  if (entries.length === 0) throw new Error('No styles found');
+
+  const imported: Record<string, SkillTreeStyle> = {};
+  for (const [key, value] of entries) {
+    const style = checkStyle(value, key ? `Style "${key}"` : 'The style');
+    const free = key && /^[a-z0-9-]+$/.test(key) && !SKILL_TREE_STYLES[key] && !imported[key];
+    const customStyles = { ...(settings.customStyles || {}), ...imported };
+    imported[free ? key : uniqueStyleKey({ customStyles }, style.name)] = style;
+  }
+  return imported;
+}
@@ -1,10 +1,199 @@
-// import { getAPI, STask } from "obsidian-dataview";
-
-// function getTasksFromFile(app: any, file: String): STask[] {
-//     const api = getAPI(app);
-    
-//     if (!api) throw new Error("Dataview API not available");
-    
-//     const currentPage = api.page(file); 
-//     return currentPage?.file.tasks || [];
-// }
\ No newline at end of file
+import type { App, TFile } from 'obsidian';
+import { TaskStatusType } from './interfaces';
+import { getTaskStatusType } from './tasks';
+import { DEFAULT_TASK_EXP, parseTaskExp } from './exp';
+import { parseTaskMetadata, TaskMetadata } from './task-metadata';
+
+/**
+ * A task of a node's note, as shown in the orbit.
+ * `parentIndex` and `children` are indexes into the same task list.
+ */
+export interface TaskItem extends TaskMetadata {
+  id: number;
+  text: string;
+  status: string;
+  statusType: TaskStatusType;
+  completed: boolean;
+  /** Cancelled tasks don't count toward completion */
+  cancelled: boolean;
+  /** 0-based line in the note */
+  line: number;
+  originalLine: string;
+  /** Indentation width, tabs count as 2 */
+  indent: number;
+  parentIndex: number | null;
+  children: number[];
+  exp: number;
+  filePath?: string;
+  /** Open in the note, but counted as done because all its subtasks are */
+  completedByChildren?: boolean;
+}
+
+/**
+ * Where the tasks of a note are read from.
+ */
+export interface TaskSource {
+  readonly name: 'regex' | 'dataview';
+  /**
+   * Read the tasks of a note in file order.
+   * @param file The note.
+   * @param statuses Checkbox symbol mapping, see `DEFAULT_TASK_STATUSES`.
+   */
+  getTasks(file: TFile, statuses: Record<string, TaskStatusType>): Promise<TaskItem[]>;
+}
+
+// Tasks format: - [ ] task text, -[x] task text, * [/] task text, ...
+const TASK_LINE = /^(\s*)[-*]\s*\[(.)\]\s+(.+)$/;
+
+function indentWidth(indent: string): number {
+  let width = 0;
+  for (const ch of indent) {
+    if (ch === '\t') width += 2;
+    else if (ch === ' ') width += 1;
+  }
+  return width;
+}
+
+function createTaskItem(id: number, text: string, status: string, line: number, originalLine: string, statuses: Record<string, TaskStatusType>): TaskItem {
+  const statusType = getTaskStatusType(status, statuses);
+  return {
+    ...parseTaskMetadata(text), // due, scheduled, start, created, doneDate, priority, recurrence
+    id,
+    text,
+    status,
+    statusType,
+    completed: statusType === 'done',
+    cancelled: statusType === 'cancelled',
+    line,
+    originalLine,
+    indent: indentWidth(originalLine.match(/^\s*/)?.[0] || ''),
+    parentIndex: null,
+    children: [],
+    exp: parseTaskExp(text) ?? DEFAULT_TASK_EXP, // [exp:: 25] / +25xp, default 10
+  };
+}
+
+/**
+ * Parse the tasks of a note with a regex. A task is the child of the closest
+ * task above it with less indentation.
+ * @param content The note content.
+ * @param statuses Checkbox symbol mapping.
+ */
+export function parseTasks(content: string, statuses: Record<string, TaskStatusType>): TaskItem[] {
+  const lines = content.split('\n');
+  const tasks: TaskItem[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(TASK_LINE);
+    if (match) tasks.push(createTaskItem(tasks.length, match[3].trim(), match[2], i, lines[i], statuses));
+  }
+
+  // Establish parent-child relationships based on indentation
+  for (let i = 0; i < tasks.length; i++) {
+    for (let j = i - 1; j >= 0; j--) {
+      if (tasks[j].indent < tasks[i].indent) {
+        tasks[i].parentIndex = j;
+        tasks[j].children.push(i);
+        break;
+      }
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Mark open tasks whose subtasks are all done (cancelled subtasks aside) as completed,
+ * at any depth: a task is done when all of its children are, directly or through theirs.
+ * @param tasks Tasks with parent/child links; modified in place.
+ */
+export function deriveParentCompletion(tasks: TaskItem[]): TaskItem[] {
+  // Children come after their parent, so going backwards settles children first
+  for (let i = tasks.length - 1; i >= 0; i--) {
+    const task = tasks[i];
+    if (task.completed || task.cancelled) continue;
+    const required = task.children.map((c) => tasks[c]).filter((c) => c && !c.cancelled);
+    if (required.length > 0 && required.every((c) => c.completed)) {
+      task.completed = true;
+      task.statusType = 'done';
+      task.completedByChildren = true;
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Task source parsing the note's markdown, works without any other plugin.
+ */
+export function createRegexTaskSource(app: App): TaskSource {
+  return {
+    name: 'regex',
+    async getTasks(file, statuses) {
+      return parseTasks(await app.vault.read(file), statuses);
+    },
+  };
+}
+
+// The parts of Dataview's SListItem / STask used here
+interface DataviewTask {
+  text: string;
+  status?: string;
+  line: number;
+  /** Line of the parent list item, if nested */
+  parent?: number;
+}
+
+/**
+ * Dataview API of the installed Dataview plugin, if any.
+ */
+export function getDataviewApi(app: App): { page(path: string): any; pages(source?: string): Iterable<any> } | undefined {
+  // @ts-expect-error
+  return app.plugins?.plugins?.['dataview']?.api;
+}
+
+/**
+ * Task source using Dataview's `page.file.tasks`, which knows the real list structure
+ * (a task under a plain bullet under another task is still its child). Falls back to
+ * the regex parser when Dataview is unavailable or has not indexed the latest change yet.
+ */
+export function createDataviewTaskSource(app: App): TaskSource {
+  const fallback = createRegexTaskSource(app);
+  return {
+    name: 'dataview',
+    async getTasks(file, statuses) {
+      const page = getDataviewApi(app)?.page(file.path);
+      if (!page?.file?.tasks) return fallback.getTasks(file, statuses);
+      const dvTasks = (Array.from(page.file.tasks) as DataviewTask[]).sort((a, b) => a.line - b.line);
+
+      const content = await app.vault.read(file);
+      const lines = content.split('\n');
+      const tasks: TaskItem[] = [];
+      const indexByLine = new Map<number, number>();
+      for (const t of dvTasks) {
+        const originalLine = lines[t.line] ?? '';
+        const match = originalLine.match(TASK_LINE);
+        // The index lags behind edits; if it no longer matches the note, parse the note directly
+        if (!match || (t.status !== undefined && match[2] !== t.status)) {
+          return fallback.getTasks(file, statuses);
+        }
+        const text = (t.text || match[3]).split('\n')[0].trim();
+        indexByLine.set(t.line, tasks.length);
+        tasks.push(createTaskItem(tasks.length, text, match[2], t.line, originalLine, statuses));
+      }
+
+      // Parent-child relationships from Dataview's list structure, skipping plain list items
+      const parentByLine = new Map<number, number | undefined>();
+      for (const item of Array.from(page.file.lists || []) as DataviewTask[]) parentByLine.set(item.line, item.parent);
+      dvTasks.forEach((t, i) => {
+        let parentLine = t.parent;
+        // Parents are always above their children, so this terminates
+        while (parentLine !== undefined && !indexByLine.has(parentLine) && parentLine < t.line) {
+          parentLine = parentByLine.get(parentLine);
+        }
+        const parentIndex = parentLine !== undefined ? indexByLine.get(parentLine) : undefined;
+        if (parentIndex === undefined) return;
+        tasks[i].parentIndex = parentIndex;
+        tasks[parentIndex].children.push(i);
+      });
+      return tasks;
+    },
+  };
+}
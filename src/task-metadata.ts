@@ -0,0 +1,146 @@
+import { TaskSortOrder } from './interfaces';
+
+/**
+ * Priority of a task, from the Tasks priority emojis or a `[priority:: ...]` field.
+ */
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'none' | 'low' | 'lowest';
+
+/**
+ * Tasks-format metadata of a task line. Dates are `YYYY-MM-DD` strings.
+ */
+export interface TaskMetadata {
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  created?: string;
+  doneDate?: string;
+  priority: TaskPriority;
+  recurrence?: string;
+}
+
+/** Emoji shown for each priority (none has no emoji) */
+export const PRIORITY_ICONS: Record<TaskPriority, string> = {
+  highest: '🔺',
+  high: '⏫',
+  medium: '🔼',
+  none: '',
+  low: '🔽',
+  lowest: '⏬',
+};
+
+// Rank used for sorting, highest first like the Tasks plugin
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  highest: 0,
+  high: 1,
+  medium: 2,
+  none: 3,
+  low: 4,
+  lowest: 5,
+};
+
+const DATE = '(\\d{4}-\\d{2}-\\d{2})';
+// Emoji signifiers may carry a variation selector
+const V = '\\uFE0F?';
+
+// Tasks emoji format and the Dataview inline field names Tasks uses for each date
+const DATE_FIELDS: { key: 'due' | 'scheduled' | 'start' | 'created' | 'doneDate'; emoji: string; field: string }[] = [
+  { key: 'due', emoji: '📅', field: 'due' },
+  { key: 'scheduled', emoji: '⏳', field: 'scheduled' },
+  { key: 'start', emoji: '🛫', field: 'start' },
+  { key: 'created', emoji: '➕', field: 'created' },
+  { key: 'doneDate', emoji: '✅', field: 'completion' },
+];
+
+const SIGNIFIERS = '📅⏳🛫➕✅🔁🔺⏫🔼🔽⏬';
+const RECURRENCE_EMOJI = new RegExp(`🔁${V}\\s*([^${SIGNIFIERS}\\[\\(]+)`, 'u');
+const PRIORITY_EMOJI = new RegExp(`(🔺|⏫|🔼|🔽|⏬)${V}`, 'u');
+
+function inlineField(name: string, value: string): RegExp {
+  return new RegExp(`[\\[(]\\s*${name}\\s*::\\s*${value}\\s*[\\])]`, 'i');
+}
+
+/**
+ * Read the Tasks metadata of a task line: 📅 due, ⏳ scheduled, 🛫 start, ➕ created,
+ * ✅ done dates, 🔺 ⏫ 🔼 🔽 ⏬ priorities and 🔁 recurrence, or the same data as
+ * Dataview inline fields (`[due:: 2024-05-01]`, `[priority:: high]`, `[repeat:: every week]`, ...).
+ * @param text Task text or the full markdown line.
+ */
+export function parseTaskMetadata(text: string): TaskMetadata {
+  const metadata: TaskMetadata = { priority: 'none' };
+
+  for (const { key, emoji, field } of DATE_FIELDS) {
+    const match = text.match(new RegExp(`${emoji}${V}\\s*${DATE}`, 'u')) || text.match(inlineField(field, DATE));
+    if (match) metadata[key] = match[1];
+  }
+
+  const priorityEmoji = text.match(PRIORITY_EMOJI);
+  if (priorityEmoji) {
+    const entry = Object.entries(PRIORITY_ICONS).find(([, icon]) => icon === priorityEmoji[1]);
+    if (entry) metadata.priority = entry[0] as TaskPriority;
+  } else {
+    const priorityField = text.match(inlineField('priority', '([a-z]+)'));
+    const value = priorityField?.[1].toLowerCase();
+    if (value && value in PRIORITY_RANK) metadata.priority = value as TaskPriority;
+  }
+
+  const recurrence = text.match(RECURRENCE_EMOJI) || text.match(inlineField('repeat', '([^\\])]+?)'));
+  if (recurrence && recurrence[1].trim()) metadata.recurrence = recurrence[1].trim();
+
+  return metadata;
+}
+
+/**
+ * Remove Tasks metadata (emoji signifiers and their values, and the matching
+ * Dataview inline fields) from task text for display.
+ * @param text Task text.
+ */
+export function stripTaskMetadata(text: string): string {
+  let result = text;
+  for (const { emoji, field } of DATE_FIELDS) {
+    result = result
+      .replace(new RegExp(`${emoji}${V}\\s*${DATE}`, 'gu'), '')
+      .replace(new RegExp(inlineField(field, DATE).source, 'gi'), '');
+  }
+  return result
+    .replace(new RegExp(RECURRENCE_EMOJI.source, 'gu'), '')
+    .replace(new RegExp(inlineField('repeat', '[^\\])]+?').source, 'gi'), '')
+    .replace(new RegExp(PRIORITY_EMOJI.source, 'gu'), '')
+    .replace(new RegExp(inlineField('priority', '[a-z]+').source, 'gi'), '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Check whether an open task is past its due date.
+ * @param task The task's metadata and completion.
+ * @param today Today's date as `YYYY-MM-DD`.
+ */
+export function isTaskOverdue(task: { due?: string; completed?: boolean; cancelled?: boolean }, today: string): boolean {
+  return !!task.due && !task.completed && !task.cancelled && task.due < today;
+}
+
+/**
+ * Compare two tasks for the orbit order. Ties (and the `file` order) keep file order.
+ * @param a First task, with `line` and its metadata.
+ * @param b Second task.
+ * @param order Sort order.
+ */
+export function compareTasks(
+  a: { line?: number; due?: string; priority?: TaskPriority },
+  b: { line?: number; due?: string; priority?: TaskPriority },
+  order: TaskSortOrder
+): number {
+  const byLine = (a.line ?? 0) - (b.line ?? 0);
+  if (order === 'due') {
+    // Tasks without a due date go last
+    if (a.due !== b.due) {
+      if (!a.due) return 1;
+      if (!b.due) return -1;
+      return a.due < b.due ? -1 : 1;
+    }
+  } else if (order === 'priority') {
+    const rank = PRIORITY_RANK[a.priority || 'none'] - PRIORITY_RANK[b.priority || 'none'];
+    if (rank !== 0) return rank;
+  }
+  return byLine;
+}
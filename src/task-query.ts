@@ -0,0 +1,198 @@
+import { App, TFile, TFolder, getAllTags, parseFrontMatterTags } from 'obsidian';
+import { TaskStatusType } from './interfaces';
+import { getDataviewApi, TaskItem, TaskSource } from './task-data';
+
+/**
+ * One term of a node's task query.
+ * - `tag`: `#skill/typescript`, tasks tagged with it (or a nested tag) and all tasks of notes tagged with it in frontmatter
+ * - `folder`: `"Projects/Web"` or `Projects/Web/`, all tasks of notes in the folder
+ * - `file`: `[[Note]]`, all tasks of the note
+ */
+export interface TaskQueryTerm {
+  type: 'tag' | 'folder' | 'file';
+  value: string;
+}
+
+/**
+ * Parse a task query made of space-separated tag, folder and note terms (matching any of them).
+ * @returns The terms, or null when the query uses other syntax and has to be run by Dataview.
+ */
+export function parseTaskQuery(query: string): TaskQueryTerm[] | null {
+  const terms: TaskQueryTerm[] = [];
+  const pattern = /\s*(?:(#[^\s#"[\]]+)|"([^"]+)"|\[\[([^\]]+)\]\]|(\S+\/))(?=\s|$)/y;
+  let rest = query.trim();
+  while (rest.length > 0) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(rest);
+    if (!match) return null;
+    if (match[1]) terms.push({ type: 'tag', value: match[1].toLowerCase() });
+    else if (match[2]) terms.push({ type: 'folder', value: match[2].replace(/^\/+|\/+$/g, '') });
+    else if (match[3]) terms.push({ type: 'file', value: match[3].split('|')[0].trim() });
+    else terms.push({ type: 'folder', value: match[4].replace(/^\/+|\/+$/g, '') });
+    rest = rest.slice(pattern.lastIndex).trim();
+  }
+  return terms;
+}
+
+// Tasks plugin filter lines (`tag includes #x`, `path includes Projects`, `not done`), which are not Dataview sources
+const TASKS_FILTER = /^\s*(?:(?:tags?|path|folder|root|filename|description|heading)\s+(?:includes|does not include|regex matches|regex does not match)\b|(?:not done|done|has due date|no due date|is recurring)\s*$)/im;
+
+/**
+ * Check that a task query can be run, so the node editor can say what is wrong with it.
+ * @param app The app.
+ * @param query The query.
+ * @returns Why the query can't be run, or null if it can.
+ */
+export function checkTaskQuery(app: App, query: string): string | null {
+  const trimmed = query.trim();
+  if (!trimmed || parseTaskQuery(trimmed) !== null) return null;
+  if (TASKS_FILTER.test(trimmed)) {
+    return 'Tasks plugin filters are not supported. Use #tag, "Folder", Folder/ and [[Note]] terms, or a Dataview source.';
+  }
+  if (app.vault.getAbstractFileByPath(trimmed) instanceof TFolder) {
+    return `Write the folder as "${trimmed}" or ${trimmed}/.`;
+  }
+  const dv = getDataviewApi(app);
+  if (!dv) return 'Only #tag, "Folder", Folder/ and [[Note]] terms work without the Dataview plugin.';
+  try {
+    dv.pages(trimmed);
+  } catch (e) {
+    return `Dataview can't run it: ${e instanceof Error ? e.message : e}`;
+  }
+  return null;
+}
+
+/**
+ * Check whether `tag` is `wanted` or nested under it (`#skill/ts` matches `#skill`).
+ */
+export function tagMatches(tag: string, wanted: string): boolean {
+  const t = tag.toLowerCase();
+  return t === wanted || t.startsWith(wanted + '/');
+}
+
+// Tags written on a markdown line
+function lineTags(line: string): string[] {
+  return line.match(/(?:^|\s)#[^\s#"[\]().,;:!?]+/g)?.map((t) => t.trim()) || [];
+}
+
+/**
+ * Keep the tasks at `indexes` and all their descendants, re-indexing parent/child links.
+ */
+export function selectTasks(tasks: TaskItem[], indexes: Iterable<number>): TaskItem[] {
+  const keep = new Set<number>();
+  const add = (i: number) => {
+    if (keep.has(i)) return;
+    keep.add(i);
+    tasks[i].children.forEach(add);
+  };
+  for (const i of indexes) add(i);
+  const sorted = [...keep].sort((a, b) => a - b);
+  const newIndex = new Map(sorted.map((oldIndex, i) => [oldIndex, i]));
+  return sorted.map((oldIndex, i) => {
+    const task = tasks[oldIndex];
+    return {
+      ...task,
+      id: i,
+      parentIndex: task.parentIndex !== null ? newIndex.get(task.parentIndex) ?? null : null,
+      children: task.children.map((c) => newIndex.get(c)).filter((c): c is number => c !== undefined),
+    };
+  });
+}
+
+/**
+ * Concatenate task lists into one, offsetting indexes and skipping tasks already
+ * in the list (same file and line).
+ */
+export function mergeTaskLists(lists: TaskItem[][]): TaskItem[] {
+  const merged: TaskItem[] = [];
+  const seen = new Set<string>();
+  const keyOf = (t: TaskItem) => `${(t.filePath || '').replace(/^\/+/, '').replace(/\.md$/, '')}:${t.line}`;
+  for (const list of lists) {
+    const unique = list.map((t, i) => i).filter((i) => !seen.has(keyOf(list[i])));
+    const tasks = unique.length === list.length ? list : selectTasks(list, unique);
+    const offset = merged.length;
+    for (const t of tasks) {
+      seen.add(keyOf(t));
+      merged.push({
+        ...t,
+        id: t.id + offset,
+        parentIndex: t.parentIndex !== null ? t.parentIndex + offset : null,
+        children: t.children.map((c) => c + offset),
+      });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Find the tasks matching a node's task query across the vault.
+ * Queries that are not plain tag/folder/note terms are run as a Dataview source
+ * (`"Projects" and #skill`, `-#archived`, ...), which needs the Dataview plugin.
+ * @param app The app.
+ * @param query The query.
+ * @param source Task source used to read the matching notes.
+ * @param statuses Checkbox symbol mapping.
+ * @returns The matching tasks, each with its `filePath`, in vault order.
+ */
+export async function getQueryTasks(app: App, query: string, source: TaskSource, statuses: Record<string, TaskStatusType>): Promise<TaskItem[]> {
+  const terms = parseTaskQuery(query);
+  const lists: TaskItem[][] = [];
+
+  if (terms === null) {
+    const dv = getDataviewApi(app);
+    if (!dv) throw new Error(`Task query "${query}" needs the Dataview plugin`);
+    for (const page of Array.from(dv.pages(query))) {
+      const file = app.vault.getAbstractFileByPath(page.file.path);
+      if (file instanceof TFile) lists.push(withFilePath(await source.getTasks(file, statuses), file));
+    }
+    return mergeTaskLists(lists);
+  }
+
+  for (const file of app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path))) {
+    const match = matchNote(app, file, terms);
+    if (!match) continue;
+
+    const tasks = withFilePath(await source.getTasks(file, statuses), file);
+    if (match === 'all') {
+      lists.push(tasks);
+    } else {
+      const tagTerms = terms.filter((t) => t.type === 'tag').map((t) => t.value);
+      const tagged = tasks
+        .map((t, i) => i)
+        .filter((i) => lineTags(tasks[i].originalLine).some((tag) => tagTerms.some((wanted) => tagMatches(tag, wanted))));
+      if (tagged.length > 0) lists.push(selectTasks(tasks, tagged));
+    }
+  }
+  return mergeTaskLists(lists);
+}
+
+// Which tasks of a note the terms take: all of them (folder, note or tag in frontmatter),
+// the tagged ones (a tag in the body), or none
+function matchNote(app: App, file: TFile, terms: readonly TaskQueryTerm[]): 'all' | 'tagged' | null {
+  const tagTerms = terms.filter((t) => t.type === 'tag').map((t) => t.value);
+  const wholeNote = terms.some((t) =>
+    (t.type === 'folder' && (t.value === '' || file.path.startsWith(t.value + '/'))) ||
+    (t.type === 'file' && (file.path === t.value || file.path === t.value + '.md' || file.basename === t.value))
+  );
+  const cache = app.metadataCache.getFileCache(file);
+  const noteTags = parseFrontMatterTags(cache?.frontmatter) || [];
+  if (wholeNote || tagTerms.some((wanted) => noteTags.some((tag) => tagMatches(tag, wanted)))) return 'all';
+  const hasTag = cache && tagTerms.some((wanted) => (getAllTags(cache) || []).some((tag) => tagMatches(tag, wanted)));
+  return hasTag ? 'tagged' : null;
+}
+
+/**
+ * Whether a note can hold tasks matching a query. Dataview queries may match any note.
+ * @param app The app.
+ * @param file The note.
+ * @param query The query.
+ */
+export function taskQueryMayMatch(app: App, file: TFile, query: string): boolean {
+  const terms = parseTaskQuery(query);
+  return terms === null || matchNote(app, file, terms) !== null;
+}
+
+function withFilePath(tasks: TaskItem[], file: TFile): TaskItem[] {
+  for (const t of tasks) t.filePath = file.path;
+  return tasks;
+}
@@ -1,4 +1,5 @@
 import type { App } from "obsidian";
+import type { TaskStatusType } from "./interfaces";
 
 /**
  * Tasks API v1 interface
@@ -29,3 +30,128 @@ export const createGetTasksApi = (app: App) => (): TasksApiV1 | undefined => {
   // @ts-expect-error
   return app.plugins.plugins["obsidian-tasks-plugin"]?.apiV1;
 };
+
+/**
+ * Default mapping of checkbox symbols to status types, matching the Tasks plugin's core statuses.
+ * Symbols not in the mapping are treated as todo, like Tasks does.
+ */
+export const DEFAULT_TASK_STATUSES: Record<string, TaskStatusType> = {
+  ' ': 'todo',
+  'x': 'done',
+  'X': 'done',
+  '/': 'in-progress',
+  '-': 'cancelled',
+};
+
+/** Fill color of orbiting task nodes per status type */
+export const TASK_STATUS_COLORS: Record<TaskStatusType, string> = {
+  'todo': '#ff9800',
+  'in-progress': '#2196f3',
+  'done': '#4caf50',
+  'cancelled': '#9e9e9e',
+};
+
+const STATUS_TYPES: readonly TaskStatusType[] = ['todo', 'in-progress', 'done', 'cancelled'];
+
+/**
+ * Status type of a checkbox symbol.
+ * @param symbol The character between the brackets of `- [?]`.
+ * @param statuses Symbol mapping, see {@link DEFAULT_TASK_STATUSES}.
+ */
+export function getTaskStatusType(symbol: string, statuses: Record<string, TaskStatusType> = DEFAULT_TASK_STATUSES): TaskStatusType {
+  return statuses[symbol] ?? 'todo';
+}
+
+/**
+ * Parse a status mapping written as `[x] done, [/] in-progress, [-] cancelled`.
+ * Entries with an unknown type are skipped.
+ */
+export function parseTaskStatuses(text: string): Record<string, TaskStatusType> {
+  const statuses: Record<string, TaskStatusType> = {};
+  for (const match of text.matchAll(/\[(.)\]\s*=?\s*([a-z-]+)/gi)) {
+    const type = match[2].toLowerCase() as TaskStatusType;
+    if (STATUS_TYPES.includes(type)) statuses[match[1]] = type;
+  }
+  return statuses;
+}
+
+/**
+ * Format a status mapping for the settings, see {@link parseTaskStatuses}.
+ */
+export function formatTaskStatuses(statuses: Record<string, TaskStatusType>): string {
+  return Object.entries(statuses).map(([symbol, type]) => `[${symbol}] ${type}`).join(', ');
+}
+
+/**
+ * Toggle a task line's checkbox without the Tasks plugin: done tasks become `[ ]`,
+ * any other status becomes `[x]`.
+ * @param line The markdown task line.
+ * @param statuses Symbol mapping used to tell whether the task is done.
+ * @returns The toggled line (unchanged if it is not a task).
+ */
+export function toggleCheckboxLine(line: string, statuses: Record<string, TaskStatusType> = DEFAULT_TASK_STATUSES): string {
+  return line.replace(/^(\s*[-*+]\s*)\[(.)\]/, (match, prefix, symbol) => {
+    return `${prefix}[${getTaskStatusType(symbol, statuses) === 'done' ? ' ' : 'x'}]`;
+  });
+}
+
+/**
+ * Insert a task line at the end of the section under `heading`.
+ * The heading may be given with its `#` marks (matched exactly) or as plain text
+ * (matched at any level). When the note has no such heading, one is appended
+ * with the task; an empty heading appends the task at the end of the note.
+ * @param content The note content.
+ * @param taskLine The markdown task line to insert.
+ * @param heading The heading to insert under, e.g. `## Tasks` or `Tasks`.
+ * @returns The new note content.
+ */
+export function insertTaskUnderHeading(content: string, taskLine: string, heading: string): string {
+  const lines = content.split('\n');
+  // Drop trailing blank lines so the task lands right after the last line of text
+  const trimEnd = (end: number) => {
+    while (end > 0 && lines[end - 1].trim() === '') end--;
+    return end;
+  };
+
+  const wanted = heading.trim();
+  if (!wanted) {
+    const end = trimEnd(lines.length);
+    lines.splice(end, 0, taskLine);
+    return lines.join('\n');
+  }
+
+  const explicitLevel = wanted.match(/^(#{1,6})\s+(.*)$/);
+  const wantedText = (explicitLevel ? explicitLevel[2] : wanted).trim().toLowerCase();
+  let headingIndex = -1;
+  let headingLevel = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!m || m[2].trim().toLowerCase() !== wantedText) continue;
+    if (explicitLevel && m[1].length !== explicitLevel[1].length) continue;
+    headingIndex = i;
+    headingLevel = m[1].length;
+    break;
+  }
+
+  if (headingIndex === -1) {
+    const end = trimEnd(lines.length);
+    const headingLine = explicitLevel ? wanted : `## ${wanted}`;
+    const block = end > 0 ? ['', headingLine, taskLine] : [headingLine, taskLine];
+    lines.splice(end, lines.length - end, ...block, '');
+    return lines.join('\n');
+  }
+
+  // The section ends at the next heading of the same or a higher level
+  let sectionEnd = lines.length;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    const m = lines[i].match(/^(#{1,6})\s/);
+    if (m && m[1].length <= headingLevel) {
+      sectionEnd = i;
+      break;
+    }
+  }
+  let insertAt = sectionEnd;
+  while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+  lines.splice(insertAt, 0, taskLine);
+  return lines.join('\n');
+}
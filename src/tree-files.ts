@@ -0,0 +1,161 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { SkillNode, SkillTreeData } from './interfaces';
+import { TREE_FILE_EXTENSION } from './constants';
+
+/**
+ * Parse the contents of a `.skilltree` file into tree data.
+ * @param raw Raw file contents (JSON). Empty files yield an empty tree.
+ * @param name Name to use for the tree, normally the file's basename.
+ */
+export function parseTreeData(raw: string, name: string): SkillTreeData {
+  if (!raw || !raw.trim()) {
+    return { name, nodes: [], edges: [] };
+  }
+  const data = JSON.parse(raw);
+  return {
+    ...data,
+    name,
+    nodes: Array.isArray(data?.nodes) ? data.nodes : [],
+    edges: Array.isArray(data?.edges) ? data.edges : [],
+  };
+}
+
+/**
+ * Serialize tree data for writing to a `.skilltree` file.
+ * @param data Tree data to serialize.
+ */
+export function serializeTreeData(data: SkillTreeData): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Vault path of a node's note link (leading slash removed, `.md` added).
+ * @param fileLink The node's `fileLink`.
+ */
+export function getNoteLinkPath(fileLink: string): string {
+  let normalizedPath = fileLink.trim();
+  if (normalizedPath.startsWith('/')) normalizedPath = normalizedPath.substring(1);
+  if (!normalizedPath.endsWith('.md')) normalizedPath = normalizedPath + '.md';
+  return normalizedPath;
+}
+
+/**
+ * Point the nodes linked to a renamed note at its new path, or mark them as
+ * broken links when the note was deleted.
+ * @param nodes Nodes of a tree; modified in place.
+ * @param oldPath Previous vault path of the note.
+ * @param newPath New vault path, or null if the note was deleted.
+ * @returns The nodes that were changed.
+ */
+export function retargetNoteLinks(nodes: SkillNode[], oldPath: string, newPath: string | null): SkillNode[] {
+  const changed: SkillNode[] = [];
+  for (const node of nodes) {
+    if (!node.fileLink || getNoteLinkPath(node.fileLink) !== oldPath) continue;
+    if (newPath) {
+      // Keep the link's style: with or without the extension
+      node.fileLink = node.fileLink.trim().endsWith('.md') ? newPath : newPath.replace(/\.md$/, '');
+      delete node.brokenLink;
+    } else {
+      node.brokenLink = true;
+    }
+    changed.push(node);
+  }
+  return changed;
+}
+
+/**
+ * Check whether a file is a skill tree file.
+ * @param file Any vault file.
+ */
+export function isTreeFile(file: unknown): file is TFile {
+  return file instanceof TFile && file.extension === TREE_FILE_EXTENSION;
+}
+
+/**
+ * List every skill tree file in the vault, sorted by path.
+ * @param app The Obsidian app instance.
+ */
+export function getTreeFiles(app: App): TFile[] {
+  return app.vault.getFiles()
+    .filter((f) => f.extension === TREE_FILE_EXTENSION)
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Find the notes linked by the nodes of every tree file. Files that are not valid trees are skipped.
+ * @param app The Obsidian app instance.
+ * @returns The tree files linking each note, by note path.
+ */
+export async function getTreeNoteLinks(app: App): Promise<Map<string, TFile[]>> {
+  const links = new Map<string, TFile[]>();
+  for (const file of getTreeFiles(app)) {
+    let tree: SkillTreeData;
+    try {
+      tree = parseTreeData(await app.vault.cachedRead(file), file.basename);
+    } catch (e) {
+      continue;
+    }
+    for (const node of tree.nodes) {
+      if (!node.fileLink || node.brokenLink) continue;
+      const path = getNoteLinkPath(node.fileLink);
+      const trees = links.get(path) || [];
+      if (!trees.includes(file)) links.set(path, [...trees, file]);
+    }
+  }
+  return links;
+}
+
+/**
+ * Build the vault path for a tree file named `name` in `folder`.
+ * @param folder Folder path (empty string = vault root).
+ * @param name Tree name without extension.
+ */
+export function buildTreeFilePath(folder: string, name: string): string {
+  const cleanFolder = (folder || '').replace(/^\/+|\/+$/g, '');
+  const fileName = `${name}.${TREE_FILE_EXTENSION}`;
+  return normalizePath(cleanFolder ? `${cleanFolder}/${fileName}` : fileName);
+}
+
+/**
+ * Make a tree name usable as a file name: characters Obsidian does not allow
+ * in file names (`/ \ : * ? " < > | # ^ [ ]`) are replaced with `-`.
+ * @param name Tree name.
+ */
+export function sanitizeTreeName(name: string): string {
+  return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'Untitled';
+}
+
+/**
+ * Find a tree file path in `folder` that is not yet taken, appending a counter if needed.
+ * @param app The Obsidian app instance.
+ * @param folder Folder path (empty string = vault root).
+ * @param name Preferred tree name.
+ */
+export function getAvailableTreeFilePath(app: App, folder: string, name: string): string {
+  let path = buildTreeFilePath(folder, name);
+  let counter = 1;
+  while (app.vault.getAbstractFileByPath(path)) {
+    path = buildTreeFilePath(folder, `${name} ${counter++}`);
+  }
+  return path;
+}
+
+/**
+ * Create a new `.skilltree` file.
+ * @param app The Obsidian app instance.
+ * @param folder Folder to create the file in (empty string = vault root).
+ * @param name Tree name; see {@link sanitizeTreeName}. A counter is appended when the name is already taken.
+ * @param data Optional initial nodes and edges.
+ * @returns The created file.
+ */
+export async function createTreeFile(app: App, folder: string, name: string, data?: Partial<SkillTreeData>): Promise<TFile> {
+  const path = getAvailableTreeFilePath(app, folder, sanitizeTreeName(name));
+  const treeName = path.split('/').pop()!.slice(0, -(TREE_FILE_EXTENSION.length + 1));
+  const tree: SkillTreeData = {
+    ...data,
+    name: treeName,
+    nodes: data?.nodes || [],
+    edges: data?.edges || [],
+  };
+  return app.vault.create(path, serializeTreeData(tree));
+}
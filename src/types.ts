@@ -18,5 +18,7 @@ export type ModalStyleOptions = Partial<{
   minWidth: string;
   maxWidth: string;
   minHeight: string;
+  maxHeight: string;
+  overflowY: string;
   boxShadow: string;
 }>;
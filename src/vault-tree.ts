@@ -0,0 +1,141 @@
+import type { App } from 'obsidian';
+import { NodeId, SkillEdge, SkillNode, SkillTreeData } from './interfaces';
+import { generateId, normalizeId } from './ids';
+import { parseUnlockRule } from './state-engine';
+
+/**
+ * A note declaring a skill tree node in its frontmatter.
+ */
+export interface NoteNode {
+  path: string;
+  nodeId: NodeId;
+  exp?: number;
+  shape?: SkillNode['shape'];
+  unlock?: SkillNode['unlock'];
+  /** `skilltree-node-to`: nodes this one is a prerequisite of */
+  to: NodeId[];
+  /** `skilltree-node-from`: prerequisites of this node */
+  from: NodeId[];
+}
+
+const NODE_SHAPES = ['circle', 'square', 'hexagon', 'diamond'];
+const LAYER_GAP = 160;
+const NODE_GAP = 140;
+
+function idList(value: unknown): NodeId[] {
+  const list = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return list.map(normalizeId).filter((id): id is NodeId => id !== null);
+}
+
+/**
+ * Read every note with a `skilltree-node` field from the metadata cache (which
+ * needs no other plugin). When several notes claim the same node, the first by
+ * path is used.
+ * @param app The app.
+ * @param folder Only read notes in this folder (empty string = whole vault).
+ * @returns The notes in path order and the paths skipped as duplicate claims.
+ */
+export function collectNoteNodes(app: App, folder = ''): { notes: NoteNode[]; duplicates: string[] } {
+  const prefix = folder.replace(/^\/+|\/+$/g, '');
+  const notes: NoteNode[] = [];
+  const duplicates: string[] = [];
+  const seen = new Set<NodeId>();
+  const files = app.vault.getMarkdownFiles()
+    .filter((f) => !prefix || f.path.startsWith(prefix + '/'))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of files) {
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    const nodeId = normalizeId(frontmatter?.['skilltree-node']);
+    if (!frontmatter || nodeId === null) continue;
+    if (seen.has(nodeId)) {
+      duplicates.push(file.path);
+      continue;
+    }
+    seen.add(nodeId);
+    const exp = frontmatter['skilltree-node-exp'];
+    const shape = frontmatter['shape'];
+    notes.push({
+      path: file.path,
+      nodeId,
+      exp: typeof exp === 'number' ? exp : undefined,
+      shape: NODE_SHAPES.includes(shape) ? shape : undefined,
+      unlock: parseUnlockRule(frontmatter['skilltree-unlock']),
+      to: idList(frontmatter['skilltree-node-to']),
+      from: idList(frontmatter['skilltree-node-from']),
+    });
+  }
+  return { notes, duplicates };
+}
+
+/**
+ * Place nodes in layers: nodes without a parent on top, each prerequisite one
+ * layer below the lowest of its parents. Cycles are cut off after one pass per node.
+ * @param nodes Nodes to position; modified in place.
+ * @param edges Edges from child (prerequisite) to parent.
+ */
+export function layoutLayers(nodes: SkillNode[], edges: readonly SkillEdge[]): void {
+  const depth = new Map<NodeId, number>(nodes.map((n) => [n.id, 0]));
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    for (const e of edges) {
+      if (e.from == null || e.to == null || !depth.has(e.from) || !depth.has(e.to)) continue;
+      const below = (depth.get(e.to) as number) + 1;
+      if (below > (depth.get(e.from) as number)) {
+        depth.set(e.from, below);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const layers = new Map<number, SkillNode[]>();
+  for (const n of nodes) {
+    const d = depth.get(n.id) as number;
+    layers.set(d, [...(layers.get(d) || []), n]);
+  }
+  for (const [d, layer] of layers) {
+    layer.forEach((n, i) => {
+      n.x = (i - (layer.length - 1) / 2) * NODE_GAP;
+      n.y = d * LAYER_GAP;
+    });
+  }
+}
+
+/**
+ * Build a tree from notes' frontmatter. Node ids are the notes' `skilltree-node`
+ * values, so the notes stay linked; an edge is made for every `skilltree-node-to`
+ * and `skilltree-node-from` entry naming another note's node.
+ * @param notes Notes from {@link collectNoteNodes}.
+ * @param name Name of the tree.
+ */
+export function buildTreeFromNotes(notes: readonly NoteNode[], name: string): SkillTreeData {
+  const ids = new Set(notes.map((n) => n.nodeId));
+  const nodes: SkillNode[] = notes.map((note) => ({
+    id: note.nodeId,
+    x: 0,
+    y: 0,
+    fileLink: note.path.replace(/\.md$/, ''),
+    exp: note.exp ?? 10,
+    ...(note.shape ? { shape: note.shape } : {}),
+    ...(note.unlock ? { unlock: note.unlock } : {}),
+  }));
+
+  const edges: SkillEdge[] = [];
+  const used = new Set<string>(ids);
+  const pairs = new Set<string>();
+  const addEdge = (from: NodeId, to: NodeId) => {
+    const key = `${from}\u0000${to}`;
+    if (from === to || !ids.has(from) || !ids.has(to) || pairs.has(key)) return;
+    pairs.add(key);
+    const id = generateId(used);
+    used.add(id);
+    edges.push({ id, from, to });
+  };
+  for (const note of notes) {
+    note.to.forEach((to) => addEdge(note.nodeId, to));
+    note.from.forEach((from) => addEdge(from, note.nodeId));
+  }
+
+  layoutLayers(nodes, edges);
+  return { name, nodes, edges };
+}
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FrontmatterSyncPlan, planFrontmatterSync } from '../src/frontmatter-sync';
+import { SkillEdge, SkillNode } from '../src/interfaces';
+import { createTestApp, TestNote } from './stubs/app';
+
+function node(id: string, fileLink?: string, extra: Partial<SkillNode> = {}): SkillNode {
+  return { id, x: 0, y: 0, ...(fileLink ? { fileLink } : {}), ...extra };
+}
+
+function edge(from: string, to: string): SkillEdge {
+  return { id: `${from}-${to}`, from, to };
+}
+
+// A note already in sync with a node without edges
+function synced(id: string | number, extra: Record<string, unknown> = {}): TestNote {
+  return { frontmatter: { 'skilltree-node': id, 'skilltree-node-exp': 10, shape: 'circle', ...extra } };
+}
+
+function plan(notes: Record<string, TestNote>, nodes: SkillNode[], edges: SkillEdge[] = [], options = {}): FrontmatterSyncPlan {
+  return planFrontmatterSync(createTestApp(notes), nodes, edges, { defaultShape: 'circle', ...options });
+}
+
+function changesByPath(result: FrontmatterSyncPlan): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(result.changes.map((c) => [c.file.path, c.values]));
+}
+
+test('notes in sync need no changes', () => {
+  const result = plan({ 'A.md': synced('a') }, [node('a', 'A')]);
+  assert.deepEqual(result, { changes: [], links: [], conflicts: [] });
+});
+
+test('new links get the node id, EXP, shape and edges', () => {
+  const result = plan({ 'A.md': {}, 'B.md': {} }, [node('a', 'A', { exp: 25 }), node('b', '/B.md', { shape: 'hexagon' })], [edge('a', 'b')]);
+  assert.deepEqual(changesByPath(result), {
+    'A.md': { 'skilltree-node': 'a', 'skilltree-node-exp': 25, shape: 'circle', 'skilltree-node-to': ['b'] },
+    'B.md': { 'skilltree-node': 'b', 'skilltree-node-exp': 10, shape: 'hexagon', 'skilltree-node-from': ['a'] },
+  });
+});
+
+test('edge keys that are no longer needed are deleted with null', () => {
+  const result = plan(
+    { 'A.md': synced('a', { 'skilltree-node-to': ['b'], 'skilltree-node-from': 'c' }) },
+    [node('a', 'A')]
+  );
+  assert.deepEqual(changesByPath(result), { 'A.md': { 'skilltree-node-to': null, 'skilltree-node-from': null } });
+});
+
+test('a note shared by several nodes is reported and not written', () => {
+  const result = plan({ 'A.md': {} }, [node('a', 'A'), node('b', 'A.md')]);
+  assert.deepEqual(result.changes, []);
+  assert.deepEqual(result.conflicts, [{ type: 'shared-note', path: 'A.md', nodeIds: ['a', 'b'] }]);
+});
+
+test('a note naming another node is reported unless the node claims it', () => {
+  const notes = { 'A.md': synced('other') };
+  const result = plan(notes, [node('a', 'A')]);
+  assert.deepEqual(result.changes, []);
+  assert.deepEqual(result.conflicts, [{ type: 'id-mismatch', path: 'A.md', nodeId: 'a', noteNodeId: 'other' }]);
+
+  const claimed = plan(notes, [node('a', 'A')], [], { claim: ['a'] });
+  assert.deepEqual(claimed.conflicts, []);
+  assert.deepEqual(changesByPath(claimed), { 'A.md': { 'skilltree-node': 'a' } });
+});
+
+test('legacy numeric ids in notes match their string form', () => {
+  const result = plan({ 'A.md': synced(1700000000000.5, { 'skilltree-node-to': [1700000000001] }) }, [node('1700000000000.5', 'A'), node('1700000000001')], [edge('1700000000000.5', '1700000000001')]);
+  assert.deepEqual(result.changes, []);
+});
+
+test('unlinked nodes pick up the only note claiming them', () => {
+  const result = plan({ 'Notes/A.md': synced('a'), 'B.md': {} }, [node('a'), node('b')], [], { scanVault: true });
+  assert.deepEqual(result.links, [{ nodeId: 'a', path: 'Notes/A.md' }]);
+  assert.deepEqual(result.conflicts, []);
+
+  // Without scanning the vault nothing is linked
+  assert.deepEqual(plan({ 'Notes/A.md': synced('a') }, [node('a')]).links, []);
+});
+
+test('notes claiming the same node are reported and none is linked', () => {
+  const notes = { 'A.md': synced('a'), 'Copy of A.md': synced('a') };
+  const unlinked = plan(notes, [node('a')], [], { scanVault: true });
+  assert.deepEqual(unlinked.links, []);
+  assert.deepEqual(unlinked.conflicts, [{ type: 'duplicate-claim', nodeId: 'a', paths: ['A.md', 'Copy of A.md'] }]);
+
+  const linked = plan(notes, [node('a', 'A')], [], { scanVault: true });
+  assert.deepEqual(linked.conflicts, [{ type: 'duplicate-claim', nodeId: 'a', paths: ['A.md', 'Copy of A.md'] }]);
+});
+
+test('broken links and missing notes are skipped', () => {
+  const result = plan({}, [node('a', 'Gone'), node('b', 'B', { brokenLink: true })]);
+  assert.deepEqual(result, { changes: [], links: [], conflicts: [] });
+});
+
+test('the prerequisites list keeps outside links and is left alone when it holds other values', () => {
+  const nodes = [node('a', 'A'), node('b', 'B')];
+  const edges = [edge('a', 'b')];
+  const withList = (prerequisites: unknown) => ({ 'A.md': synced('a', { 'skilltree-node-to': ['b'] }), 'B.md': synced('b', { 'skilltree-node-from': ['a'], prerequisites }), 'Book.md': {} });
+
+  const added = plan(withList([[['Book']]]), nodes, edges, { prerequisiteField: true });
+  assert.deepEqual(changesByPath(added), { 'B.md': { prerequisites: ['[[Book]]', '[[A]]'] } });
+
+  const inSync = plan(withList([[['A']], '[[Book]]']), nodes, edges, { prerequisiteField: true });
+  assert.deepEqual(inSync.changes, []);
+
+  const unreadable = plan(withList([{ note: 'Book' }]), nodes, edges, { prerequisiteField: true });
+  assert.deepEqual(unreadable.changes, []);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TFile } from 'obsidian';
+import { mergePrerequisiteEntries, parsePrerequisiteField, readPrerequisiteEntries, writeRequiresSection } from '../src/prerequisites';
+import { createTestApp } from './stubs/app';
+
+const app = createTestApp({
+  'Skills/Closures.md': {},
+  'Skills/Scope.md': {},
+  'Skills/Async.md': {},
+  'Reading/Book.md': {},
+});
+const file = (path: string) => app.vault.getAbstractFileByPath(path) as TFile;
+const isTreeNote = (path: string) => path.startsWith('Skills/');
+
+function readHeading(content: string): string[] | null {
+  return readPrerequisiteEntries(app, file('Skills/Async.md'), 'heading', content);
+}
+
+test('the section ends at the next heading of the same or a higher level', () => {
+  const content = '# Async\n### Requires\n- [[Scope]]\n#### Notes\n- [[Book]]\n## Next\n- [[Closures]]\n';
+  assert.deepEqual(readHeading(content), ['[[Scope]]', '[[Book]]']);
+  assert.equal(
+    writeRequiresSection(content, ['[[Scope]]']),
+    '# Async\n### Requires\n- [[Scope]]\n#### Notes\n## Next\n- [[Closures]]\n'
+  );
+});
+
+test('prose, blank lines and other items are kept as they are', () => {
+  const content = '## Requires\nRead these first.\n\n- Know [[Closures]] well (see chapter 3)\n- a plain item\n- [[Scope]]\n\nMore prose.\n';
+  assert.deepEqual(readHeading(content), ['[[Scope]]']);
+  assert.equal(
+    writeRequiresSection(content, ['[[Closures]]']),
+    '## Requires\nRead these first.\n\n- Know [[Closures]] well (see chapter 3)\n- a plain item\n- [[Closures]]\n\nMore prose.\n'
+  );
+});
+
+test('alias and embed links are read and kept verbatim', () => {
+  const content = '## Requires\n- [[Scope|variable scope]]\n* ![[Closures]]\n';
+  assert.deepEqual(readHeading(content), ['[[Scope|variable scope]]', '![[Closures]]']);
+  assert.equal(writeRequiresSection(content, ['[[Scope|variable scope]]', '![[Closures]]']), content);
+
+  const merged = mergePrerequisiteEntries(app, 'Skills/Async.md', ['[[Scope|variable scope]]', '![[Closures]]'], [file('Skills/Scope.md')], isTreeNote);
+  assert.deepEqual(merged, ['[[Scope|variable scope]]']);
+});
+
+test('a missing heading is added at the end of the note', () => {
+  assert.equal(writeRequiresSection('# Async\nText\n\n', ['[[Scope]]']), '# Async\nText\n\n## Requires\n- [[Scope]]\n');
+  assert.equal(writeRequiresSection('', ['[[Scope]]']), '## Requires\n- [[Scope]]\n');
+  assert.equal(writeRequiresSection('# Async\n', []), '# Async\n');
+});
+
+test('new items under a heading without items are kept apart from what follows', () => {
+  assert.equal(writeRequiresSection('## Requires\nProse.\n', ['[[Scope]]']), '## Requires\n- [[Scope]]\n\nProse.\n');
+  assert.equal(writeRequiresSection('## Requires\n## Next\n', ['[[Scope]]']), '## Requires\n- [[Scope]]\n\n## Next\n');
+});
+
+test('entries of tree notes that are no longer prerequisites are dropped', () => {
+  const entries = ['[[Closures]]', '[[Book]]', '[[Missing note]]', 'Scope'];
+  const merged = mergePrerequisiteEntries(app, 'Skills/Async.md', entries, [file('Skills/Scope.md')], isTreeNote);
+  // Links outside the tree and unresolved links stay; Scope was listed without brackets
+  assert.deepEqual(merged, ['[[Book]]', '[[Missing note]]', 'Scope']);
+
+  const content = '## Requires\n- [[Closures]]\n- [[Book]]\n';
+  assert.equal(writeRequiresSection(content, ['[[Book]]']), '## Requires\n- [[Book]]\n');
+});
+
+test('missing prerequisites are appended once, duplicates are dropped', () => {
+  const merged = mergePrerequisiteEntries(app, 'Skills/Async.md', ['[[Scope]]', '[[Skills/Scope]]'], [file('Skills/Scope.md'), file('Skills/Closures.md')], isTreeNote);
+  assert.deepEqual(merged, ['[[Scope]]', '[[Closures]]']);
+});
+
+test('unquoted frontmatter links are read back as links', () => {
+  // `prerequisites:\n  - [[Scope]]\n  - "[[Book]]"` and `prerequisites: [[Scope]]` in YAML
+  assert.deepEqual(parsePrerequisiteField([[['Scope']], '[[Book]]']), ['[[Scope]]', '[[Book]]']);
+  assert.deepEqual(parsePrerequisiteField([['Scope']]), ['[[Scope]]']);
+  assert.deepEqual(parsePrerequisiteField('[[Scope]]'), ['[[Scope]]']);
+  assert.deepEqual(parsePrerequisiteField([null, '', '[[Scope]]']), ['[[Scope]]']);
+  assert.deepEqual(parsePrerequisiteField(undefined), []);
+});
+
+test('frontmatter lists with values that are not links are not read', () => {
+  assert.equal(parsePrerequisiteField(['[[Scope]]', { note: 'Book' }]), null);
+  assert.equal(parsePrerequisiteField([42]), null);
+  assert.equal(parsePrerequisiteField([['Scope', 'Book']]), null);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeNodeStates } from '../src/state-engine';
+import { NodeState, SkillEdge, SkillNode } from '../src/interfaces';
+
+function node(id: string, state?: NodeState, extra: Partial<SkillNode> = {}): SkillNode {
+  return { id, x: 0, y: 0, state, ...extra };
+}
+
+function edge(from: string, to: string): SkillEdge {
+  return { id: `${from}-${to}`, from, to };
+}
+
+function statesOf(nodes: SkillNode[], edges: SkillEdge[], tasks = new Map()) {
+  return Object.fromEntries(computeNodeStates(nodes, edges, tasks).states);
+}
+
+test('orphans are unavailable until their tasks are done', () => {
+  const tasks = new Map([['done', { total: 2, completed: 2 }], ['half', { total: 2, completed: 1 }]]);
+  assert.deepEqual(statesOf([node('empty', 'in-progress'), node('done'), node('half')], [], tasks), {
+    empty: 'unavailable',
+    done: 'complete',
+    half: 'unavailable',
+  });
+});
+
+test('orphans pass the in-progress threshold', () => {
+  const tasks = new Map([['half', { total: 2, completed: 1 }]]);
+  const result = computeNodeStates([node('half')], [], tasks, { inProgressThreshold: 0.5 });
+  assert.equal(result.states.get('half'), 'in-progress');
+});
+
+test('cycles terminate and lock the nodes on them', () => {
+  const nodes = [node('a'), node('b'), node('c')];
+  const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')];
+  assert.deepEqual(statesOf(nodes, edges), { a: 'unavailable', b: 'unavailable', c: 'unavailable' });
+});
+
+test('a prerequisite of several parents locks all of them until it is complete', () => {
+  const nodes = [node('child'), node('left'), node('right')];
+  const edges = [edge('child', 'left'), edge('child', 'right')];
+  assert.deepEqual(statesOf(nodes, edges), { child: 'in-progress', left: 'unavailable', right: 'unavailable' });
+
+  nodes[0].state = 'complete';
+  assert.deepEqual(statesOf(nodes, edges), { child: 'complete', left: 'in-progress', right: 'in-progress' });
+});
+
+test('a parent with several prerequisites follows its unlock rule', () => {
+  const edges = [edge('a', 'goal'), edge('b', 'goal')];
+  assert.equal(statesOf([node('a', 'complete'), node('b'), node('goal')], edges).goal, 'unavailable');
+  assert.equal(statesOf([node('a', 'complete'), node('b'), node('goal', undefined, { unlock: { mode: 'any' } })], edges).goal, 'in-progress');
+});
+
+test('manually completed nodes are never downgraded', () => {
+  const nodes = [node('orphan', 'complete'), node('child'), node('parent', 'complete')];
+  const result = computeNodeStates(nodes, [edge('child', 'parent')]);
+  assert.equal(result.states.get('orphan'), 'complete');
+  assert.equal(result.states.get('parent'), 'complete');
+  assert.deepEqual(result.transitions, [{ nodeId: 'child', from: undefined, to: 'in-progress' }]);
+});
@@ -0,0 +1,50 @@
+import type { App } from 'obsidian';
+import { TFile, TFolder } from './obsidian';
+
+/**
+ * A note of the test vault.
+ */
+export interface TestNote {
+  frontmatter?: Record<string, unknown>;
+  /** Tags written in the body, with their `#` */
+  tags?: string[];
+  content?: string;
+}
+
+/**
+ * An `App` with a vault holding `notes` (by path) and their folders, and a metadata
+ * cache serving their frontmatter and tags. Links resolve by path or, like Obsidian's
+ * shortest form, by name.
+ */
+export function createTestApp(notes: Record<string, TestNote>): App {
+  const files = new Map(Object.keys(notes).map((path) => [path, new TFile(path)]));
+  const folders = new Map<string, TFolder>();
+  for (const path of files.keys()) {
+    const parts = path.split('/').slice(0, -1);
+    parts.forEach((_, i) => {
+      const folder = new TFolder();
+      folder.path = parts.slice(0, i + 1).join('/');
+      folder.name = parts[i];
+      folders.set(folder.path, folder);
+    });
+  }
+  const byName = (name: string) => [...files.values()].filter((f) => f.basename === name);
+  const app = {
+    vault: {
+      getAbstractFileByPath: (path: string) => files.get(path) || folders.get(path) || null,
+      getFiles: () => [...files.values()],
+      getMarkdownFiles: () => [...files.values()].filter((f) => f.extension === 'md'),
+      read: async (file: TFile) => notes[file.path]?.content ?? '',
+      cachedRead: async (file: TFile) => notes[file.path]?.content ?? '',
+    },
+    metadataCache: {
+      getFileCache: (file: TFile) => {
+        const note = notes[file.path];
+        return note ? { frontmatter: note.frontmatter, tags: note.tags?.map((tag) => ({ tag })) } : null;
+      },
+      getFirstLinkpathDest: (linkpath: string) => files.get(linkpath) || files.get(`${linkpath}.md`) || byName(linkpath)[0] || null,
+      fileToLinktext: (file: TFile) => (byName(file.basename).length === 1 ? file.basename : file.path.replace(/\.md$/, '')),
+    },
+  };
+  return app as unknown as App;
+}
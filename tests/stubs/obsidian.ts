@@ -0,0 +1,46 @@
+// Stand-in for the `obsidian` module in tests; the package only ships type declarations.
+// Covers what the modules under test import at runtime.
+
+export class TAbstractFile {
+  path = '';
+  name = '';
+}
+
+export class TFile extends TAbstractFile {
+  basename: string;
+  extension: string;
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+    this.name = path.split('/').pop() as string;
+    const dot = this.name.lastIndexOf('.');
+    this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+    this.extension = dot > 0 ? this.name.slice(dot + 1) : '';
+  }
+}
+
+export class TFolder extends TAbstractFile {}
+
+export function getLinkpath(linktext: string): string {
+  return linktext.replace(/[#^].*$/, '');
+}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export function parseFrontMatterTags(frontmatter: any): string[] | null {
+  const value = frontmatter?.tags ?? frontmatter?.tag;
+  if (value === undefined || value === null) return null;
+  const list: unknown[] = Array.isArray(value) ? value : String(value).split(/[,\s]+/);
+  return list.filter((t) => typeof t === 'string' && t).map((t) => (t as string).startsWith('#') ? t as string : `#${t}`);
+}
+
+export function getAllTags(cache: any): string[] | null {
+  return [...(parseFrontMatterTags(cache?.frontmatter) || []), ...(cache?.tags || []).map((t: { tag: string }) => t.tag)];
+}
+
+export function getIcon(): null {
+  return null;
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cloneSkillTreeStyle, exportSkillTreeStyles, getBaseStyleKey, importSkillTreeStyles } from '../src/styles';
+import { SKILL_TREE_STYLES, SkillTreeStyle } from '../src/interfaces';
+
+function settingsWith(customStyles: Record<string, SkillTreeStyle> = {}) {
+  return { customStyles };
+}
+
+test('clones get a free key and remember their built-in style', () => {
+  const settings = settingsWith();
+  const first = cloneSkillTreeStyle(settings, 'gamified');
+  assert.ok(first);
+  assert.equal(first.key, 'custom-gamified-copy');
+  assert.equal(first.style.name, `${SKILL_TREE_STYLES.gamified.name} (copy)`);
+  assert.equal(first.style.base, 'gamified');
+  // The copy does not share objects with the built-in style
+  first.style.nodeColors.complete.fill = '#000000';
+  assert.notEqual(SKILL_TREE_STYLES.gamified.nodeColors.complete.fill, '#000000');
+
+  settings.customStyles[first.key] = first.style;
+  const second = cloneSkillTreeStyle(settings, first.key);
+  assert.ok(second);
+  assert.equal(second.style.base, 'gamified');
+  assert.equal(getBaseStyleKey(settingsWith({ [second.key]: second.style }), second.key), 'gamified');
+  assert.notEqual(second.key, first.key);
+
+  const again = cloneSkillTreeStyle(settings, 'gamified');
+  assert.equal(again?.key, 'custom-gamified-copy-2');
+  assert.equal(cloneSkillTreeStyle(settings, 'no-such-style'), null);
+});
+
+test('imported styles never replace a built-in style', () => {
+  const imported = importSkillTreeStyles(settingsWith(), JSON.stringify({ gamified: { ...SKILL_TREE_STYLES['simple-dark'], name: 'Mine' } }));
+  assert.deepEqual(Object.keys(imported), ['custom-mine']);
+  assert.equal(imported['custom-mine'].name, 'Mine');
+});
+
+test('importing a style again updates it under the same key', () => {
+  const style = { ...SKILL_TREE_STYLES['simple-light'], name: 'Paper', base: 'simple-light' };
+  const settings = settingsWith({ 'custom-paper': style });
+  const json = exportSkillTreeStyles(settings.customStyles);
+  assert.deepEqual(Object.keys(importSkillTreeStyles(settings, json)), ['custom-paper']);
+  assert.deepEqual(importSkillTreeStyles(settings, json)['custom-paper'], style);
+});
+
+test('a single style object is imported under a key made from its name', () => {
+  const imported = importSkillTreeStyles(settingsWith(), JSON.stringify({ ...SKILL_TREE_STYLES['simple-dark'], name: 'Night Owl' }));
+  assert.deepEqual(Object.keys(imported), ['custom-night-owl']);
+});
+
+test('unknown fields are dropped and unknown bases ignored', () => {
+  const imported = importSkillTreeStyles(settingsWith(), JSON.stringify({ 'custom-x': { ...SKILL_TREE_STYLES.gamified, name: 'X', base: 'nope', extra: 1 } }));
+  assert.equal(imported['custom-x'].base, undefined);
+  assert.equal('extra' in imported['custom-x'], false);
+});
+
+test('invalid shapes are refused with the first problem', () => {
+  const valid = SKILL_TREE_STYLES['simple-dark'];
+  const attempt = (value: unknown) => () => importSkillTreeStyles(settingsWith(), typeof value === 'string' ? value : JSON.stringify(value));
+  assert.throws(attempt('{ nope'), /Not valid JSON/);
+  assert.throws(attempt([valid]), /Expected an object of styles/);
+  assert.throws(attempt({}), /No styles found/);
+  assert.throws(attempt({ a: 'text' }), /Style "a" is not a style object/);
+  assert.throws(attempt({ a: { ...valid, name: ' ' } }), /Style "a" has no name/);
+  assert.throws(attempt({ a: { ...valid, nodeColors: { ...valid.nodeColors, error: { fill: '#fff' } } } }), /no fill and stroke for error nodes/);
+  assert.throws(attempt({ a: { ...valid, nodeColors: null } }), /no fill and stroke for complete nodes/);
+  assert.throws(attempt({ a: { ...valid, nodeShape: 'blob' } }), /unknown nodeShape "blob"/);
+  assert.throws(attempt({ a: { ...valid, edgeStyle: 'dotted' } }), /unknown edgeStyle "dotted"/);
+});
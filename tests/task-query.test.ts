@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TFile } from 'obsidian';
+import { checkTaskQuery, getQueryTasks, parseTaskQuery, tagMatches, taskQueryMayMatch } from '../src/task-query';
+import { createRegexTaskSource } from '../src/task-data';
+import { DEFAULT_TASK_STATUSES } from '../src/tasks';
+import { createTestApp } from './stubs/app';
+
+const app = createTestApp({
+  'Projects/Web/Site.md': { content: '- [ ] Deploy\n- [x] Design' },
+  'Projects/Notes.md': { tags: ['#skill/typescript'], content: '- [ ] Plain\n- [ ] Typed #skill/typescript\n  - [ ] Subtask' },
+  'Daily/2024-01-01.md': { content: '- [ ] Unrelated' },
+  'Skills/Tagged.md': { frontmatter: { tags: ['skill'] }, content: '- [ ] Untagged line' },
+});
+const file = (path: string) => app.vault.getAbstractFileByPath(path) as TFile;
+
+test('tag, folder and note terms are parsed', () => {
+  assert.deepEqual(parseTaskQuery('#Skill/TypeScript "Projects/Web" Daily/ [[Site|the site]]'), [
+    { type: 'tag', value: '#skill/typescript' },
+    { type: 'folder', value: 'Projects/Web' },
+    { type: 'folder', value: 'Daily' },
+    { type: 'file', value: 'Site' },
+  ]);
+  assert.deepEqual(parseTaskQuery('  '), []);
+});
+
+test('other syntax is left to Dataview', () => {
+  assert.equal(parseTaskQuery('"Projects" and #skill'), null);
+  assert.equal(parseTaskQuery('-#archived'), null);
+  assert.equal(parseTaskQuery('Projects'), null);
+  assert.equal(parseTaskQuery('tag includes #skill'), null);
+});
+
+test('tags match themselves and nested tags', () => {
+  assert.ok(tagMatches('#Skill/TS', '#skill'));
+  assert.ok(tagMatches('#skill', '#skill'));
+  assert.ok(!tagMatches('#skills', '#skill'));
+});
+
+test('queries that cannot run are explained', () => {
+  assert.equal(checkTaskQuery(app, '#skill "Projects"'), null);
+  assert.equal(checkTaskQuery(app, ''), null);
+  assert.match(checkTaskQuery(app, 'tag includes #skill') as string, /Tasks plugin filters/);
+  assert.match(checkTaskQuery(app, 'path includes Projects\nnot done') as string, /Tasks plugin filters/);
+  assert.match(checkTaskQuery(app, 'Projects/Web') as string, /"Projects\/Web" or Projects\/Web\//);
+  assert.match(checkTaskQuery(app, '"Projects" and #skill') as string, /without the Dataview plugin/);
+
+  const withDataview = Object.assign(Object.create(app), {
+    plugins: { plugins: { dataview: { api: { pages: (source: string) => {
+      if (source.includes('(')) throw new Error('Unbalanced parentheses');
+      return [];
+    } } } } },
+  });
+  assert.equal(checkTaskQuery(withDataview, '"Projects" and #skill'), null);
+  assert.match(checkTaskQuery(withDataview, '("Projects"') as string, /Unbalanced parentheses/);
+});
+
+test('only notes a query can match are rescanned', () => {
+  assert.ok(taskQueryMayMatch(app, file('Projects/Web/Site.md'), '"Projects"'));
+  assert.ok(taskQueryMayMatch(app, file('Projects/Notes.md'), '#skill'));
+  assert.ok(taskQueryMayMatch(app, file('Skills/Tagged.md'), '#skill'));
+  assert.ok(taskQueryMayMatch(app, file('Daily/2024-01-01.md'), '[[2024-01-01]]'));
+  assert.ok(!taskQueryMayMatch(app, file('Daily/2024-01-01.md'), '#skill "Projects"'));
+  // Dataview sources can match any note
+  assert.ok(taskQueryMayMatch(app, file('Daily/2024-01-01.md'), '"Projects" and #skill'));
+});
+
+test('tagged lines bring their subtasks, tagged notes all their tasks', async () => {
+  const tasks = await getQueryTasks(app, '#skill', createRegexTaskSource(app), DEFAULT_TASK_STATUSES);
+  assert.deepEqual(tasks.map((t) => [t.filePath, t.text]), [
+    ['Projects/Notes.md', 'Typed #skill/typescript'],
+    ['Projects/Notes.md', 'Subtask'],
+    ['Skills/Tagged.md', 'Untagged line'],
+  ]);
+  assert.deepEqual(tasks[0].children, [1]);
+  assert.equal(tasks[1].parentIndex, 0);
+});
+
+test('folder terms take the folder and its subfolders only', async () => {
+  const tasks = await getQueryTasks(app, 'Projects/Web/ [[Notes]]', createRegexTaskSource(app), DEFAULT_TASK_STATUSES);
+  assert.deepEqual(tasks.map((t) => t.text), ['Plain', 'Typed #skill/typescript', 'Subtask', 'Deploy', 'Design']);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTreeFromNotes, collectNoteNodes, layoutLayers, NoteNode } from '../src/vault-tree';
+import { getTreeNoteLinks } from '../src/tree-files';
+import { SkillEdge, SkillNode } from '../src/interfaces';
+import { createTestApp } from './stubs/app';
+
+function note(nodeId: string, to: string[] = [], from: string[] = []): NoteNode {
+  return { path: `Skills/${nodeId}.md`, nodeId, to, from };
+}
+
+function edgePairs(edges: SkillEdge[]): string[] {
+  return edges.map((e) => `${e.from}->${e.to}`).sort();
+}
+
+function positions(nodes: SkillNode[]): Record<string, [number, number]> {
+  return Object.fromEntries(nodes.map((n) => [n.id, [n.x, n.y]]));
+}
+
+test('an edge declared on both notes is made once', () => {
+  const tree = buildTreeFromNotes([note('basics', ['advanced']), note('advanced', [], ['basics'])], 'Tree');
+  assert.deepEqual(edgePairs(tree.edges), ['basics->advanced']);
+  assert.equal(new Set(tree.edges.map((e) => e.id)).size, tree.edges.length);
+  assert.ok(tree.edges.every((e) => e.id !== 'basics' && e.id !== 'advanced'));
+});
+
+test('ids no note declares and self references make no edges', () => {
+  const tree = buildTreeFromNotes([note('basics', ['missing', 'basics']), note('advanced', [], ['gone'])], 'Tree');
+  assert.deepEqual(tree.edges, []);
+  assert.deepEqual(tree.nodes.map((n) => [n.id, n.fileLink]), [['basics', 'Skills/basics'], ['advanced', 'Skills/advanced']]);
+});
+
+test('nodes are laid out one layer below their lowest parent', () => {
+  // top <- middle <- bottom, and top <- bottom directly
+  const tree = buildTreeFromNotes([note('top'), note('middle', ['top']), note('bottom', ['middle', 'top'])], 'Tree');
+  assert.deepEqual(positions(tree.nodes), { top: [0, 0], middle: [0, 160], bottom: [0, 320] });
+});
+
+test('nodes of a layer are spread around the center', () => {
+  const nodes: SkillNode[] = ['root', 'a', 'b', 'c'].map((id) => ({ id, x: 99, y: 99 }));
+  layoutLayers(nodes, [{ id: 'e1', from: 'a', to: 'root' }, { id: 'e2', from: 'b', to: 'root' }, { id: 'e3', from: 'c', to: 'root' }]);
+  assert.deepEqual(positions(nodes), { root: [0, 0], a: [-140, 160], b: [0, 160], c: [140, 160] });
+});
+
+test('cycles and dangling edges do not stop the layout', () => {
+  const nodes: SkillNode[] = ['a', 'b', 'c'].map((id) => ({ id, x: 0, y: 0 }));
+  const edges: SkillEdge[] = [
+    { id: 'e1', from: 'a', to: 'b' },
+    { id: 'e2', from: 'b', to: 'c' },
+    { id: 'e3', from: 'c', to: 'a' },
+    { id: 'e4', from: 'a', to: 'nowhere' },
+    { id: 'e5', from: null, to: 'a' },
+  ];
+  layoutLayers(nodes, edges);
+  for (const n of nodes) assert.ok(Number.isFinite(n.x) && Number.isFinite(n.y));
+  // Every node on the cycle has a parent, so none is left on the top layer
+  assert.ok(nodes.every((n) => n.y > 0));
+});
+
+test('notes claiming a node another note claims are skipped', () => {
+  const app = createTestApp({
+    'B.md': { frontmatter: { 'skilltree-node': 'x', 'skilltree-node-to': 'y', 'skilltree-node-exp': 25, shape: 'hexagon' } },
+    'A.md': { frontmatter: { 'skilltree-node': 'x' } },
+    'C.md': { frontmatter: { 'skilltree-node': 'y', shape: 'star' } },
+    'D.md': { frontmatter: { title: 'No node' } },
+  });
+  const { notes, duplicates } = collectNoteNodes(app);
+  assert.deepEqual(notes.map((n) => [n.path, n.nodeId, n.exp, n.shape, n.to]), [
+    ['A.md', 'x', undefined, undefined, []],
+    ['C.md', 'y', undefined, undefined, []],
+  ]);
+  assert.deepEqual(duplicates, ['B.md']);
+});
+
+test('notes already linked by a tree file are found', async () => {
+  const tree = (nodes: Partial<SkillNode>[]) => ({ content: JSON.stringify({ nodes, edges: [] }) });
+  const app = createTestApp({
+    'Skills.skilltree': tree([{ id: 'x', fileLink: 'Notes/A' }, { id: 'y', fileLink: '/Notes/B.md', brokenLink: true }]),
+    'Other.skilltree': tree([{ id: 'z', fileLink: 'Notes/A.md' }]),
+    'Broken.skilltree': { content: '{ not json' },
+    'Notes/A.md': {},
+  });
+  const links = await getTreeNoteLinks(app);
+  assert.deepEqual([...links.keys()], ['Notes/A.md']);
+  assert.deepEqual(links.get('Notes/A.md')?.map((f) => f.path), ['Other.skilltree', 'Skills.skilltree']);
+});